@@ -0,0 +1,55 @@
+import {Get, Put, Body, Param, Delete, UseGuards, Controller} from '@nestjs/common';
+import {ApiTags, ApiResponse, ApiOperation, ApiBearerAuth} from '@nestjs/swagger';
+import {FilePermissionEntity, GrantPermissionRequestDto, SetOwnerRequestDto} from './aws-s3-access.dto';
+import {AwsS3AccessGuard, RequireAccess} from './aws-s3-access.guard';
+import {AwsS3AccessService} from './aws-s3-access.service';
+import {FileEntity} from './aws-s3-file.entity';
+
+@ApiTags('AWS / S3')
+@ApiBearerAuth()
+@UseGuards(AwsS3AccessGuard)
+@Controller('aws-s3/permissions')
+export class AwsS3AccessController {
+  constructor(private readonly access: AwsS3AccessService) {}
+
+  @Get(':fileId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'List the permissions granted on a file or folder',
+    description: 'The permissions granted on the folders above it apply too.',
+  })
+  @ApiResponse({type: FilePermissionEntity, isArray: true})
+  async listPermissions(@Param('fileId') fileId: string) {
+    return await this.access.listPermissions(fileId);
+  }
+
+  @Put(':fileId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Grant a permission to a user or a role',
+    description: 'A folder grants it on everything under it. It replaces the permission already granted, if any.',
+  })
+  @ApiResponse({type: FilePermissionEntity})
+  async grantPermission(@Param('fileId') fileId: string, @Body() body: GrantPermissionRequestDto) {
+    return await this.access.grantPermission({fileId, ...body});
+  }
+
+  @Delete(':fileId/:permissionId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  async revokePermission(@Param('fileId') fileId: string, @Param('permissionId') permissionId: string) {
+    return await this.access.revokePermission({fileId, permissionId});
+  }
+
+  @Put(':fileId/owner')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Transfer a file or folder to another user',
+    description: 'The owner can manage it, the files under a folder keep their own owners.',
+  })
+  @ApiResponse({type: FileEntity})
+  async setOwner(@Param('fileId') fileId: string, @Body() body: SetOwnerRequestDto) {
+    return await this.access.setOwner({fileId, ownerId: body.ownerId ?? null});
+  }
+
+  /* End */
+}
@@ -0,0 +1,51 @@
+import {ApiProperty} from '@nestjs/swagger';
+import {IsIn, IsOptional, IsString, MinLength} from 'class-validator';
+import {S3FilePermissionLevel, S3FilePrincipalType} from '@generated/prisma/client';
+
+export class FilePermissionEntity {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String, description: 'The file or folder, a folder grants the permission on its subtree too.'})
+  fileId: string;
+
+  @ApiProperty({enum: S3FilePrincipalType})
+  principalType: S3FilePrincipalType;
+
+  @ApiProperty({type: String, description: 'The user ID or the role name.'})
+  principalId: string;
+
+  @ApiProperty({enum: S3FilePermissionLevel})
+  permission: S3FilePermissionLevel;
+
+  @ApiProperty({type: String})
+  createdAt: string;
+
+  @ApiProperty({type: String})
+  updatedAt: string;
+}
+
+export class GrantPermissionRequestDto {
+  @ApiProperty({enum: S3FilePrincipalType})
+  @IsIn(Object.values(S3FilePrincipalType))
+  principalType: S3FilePrincipalType;
+
+  @ApiProperty({type: String, description: 'The user ID or the role name.'})
+  @IsString()
+  @MinLength(1)
+  principalId: string;
+
+  @ApiProperty({
+    enum: S3FilePermissionLevel,
+    description: "'read' to download, 'write' to upload, update, move and trash, 'manage' to grant and purge.",
+  })
+  @IsIn(Object.values(S3FilePermissionLevel))
+  permission: S3FilePermissionLevel;
+}
+
+export class SetOwnerRequestDto {
+  @ApiProperty({type: String, required: false, description: 'The new owner, no one if not provided.'})
+  @IsOptional()
+  @IsString()
+  ownerId?: string;
+}
@@ -0,0 +1,108 @@
+import {CanActivate, ExecutionContext, Injectable, SetMetadata, createParamDecorator} from '@nestjs/common';
+import {Reflector} from '@nestjs/core';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {S3FilePermissionLevel} from '@generated/prisma/client';
+import {Request} from 'express';
+import {AwsS3AccessService, getAwsS3Principal} from './aws-s3-access.service';
+
+const ACCESS_RULES_KEY = 'aws-s3:access-rules';
+
+/** A field of the request, e.g. 'param.fileId', 'query.parentId', 'body.uploadId'. */
+type RequestField = `${'param' | 'query' | 'body'}.${string}`;
+
+export interface AwsS3AccessRule {
+  permission: S3FilePermissionLevel | 'admin'; // 'admin' restricts the route to the `adminRoles`.
+  fileId?: RequestField; // The file or folder, the bucket root if the field is empty.
+  uploadId?: RequestField; // Or the multipart upload of the file.
+  path?: RequestField; // A folder path under `fileId`, checked at its deepest existing folder.
+  bucket?: RequestField; // The bucket of `path` when it starts at the root.
+  required?: boolean; // Whether the file is required, the bucket root is then only allowed to admins.
+}
+
+/**
+ * Declare the permissions a route requires, all the rules must pass. No rule lets any authenticated user in.
+ * A route without RequireAccess is restricted to admins.
+ */
+export const RequireAccess = (...rules: AwsS3AccessRule[]) => SetMetadata(ACCESS_RULES_KEY, rules);
+
+/** The AwsS3Principal of the request, set once AwsS3AccessGuard has let it in. */
+export const AccessPrincipal = createParamDecorator((_data: unknown, context: ExecutionContext) =>
+  getAwsS3Principal(context.switchToHttp().getRequest())
+);
+
+/**
+ * Enforces the RequireAccess rules of a route for the principal of the request.
+ * Unauthenticated requests are rejected, so it runs after the authentication guard of the application.
+ * Guards run before the interceptors: the body of a multipart/form-data request is not parsed yet,
+ * the routes receiving one check their permissions in the handler.
+ */
+@Injectable()
+export class AwsS3AccessGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly prisma: PrismaService,
+    private readonly access: AwsS3AccessService
+  ) {}
+
+  async canActivate(context: ExecutionContext) {
+    const request = context.switchToHttp().getRequest<Request & {user?: unknown}>();
+    const principal = getAwsS3Principal(request);
+    if (!principal) {
+      return false;
+    }
+    if (this.access.isAdmin(principal)) {
+      return true;
+    }
+
+    const rules = this.reflector.get<AwsS3AccessRule[] | undefined>(ACCESS_RULES_KEY, context.getHandler());
+    if (!rules) {
+      return false;
+    }
+
+    for (const rule of rules) {
+      if (rule.permission === 'admin') {
+        return false;
+      }
+
+      // [step 1] Find the file or folder the rule applies to.
+      let fileId = this.getField(request, rule.fileId);
+      const uploadId = this.getField(request, rule.uploadId);
+      if (uploadId) {
+        const file = await this.prisma.s3File.findFirst({where: {uploadId}, select: {id: true}});
+        if (!file) {
+          return false;
+        }
+        fileId = file.id;
+      }
+      const path = this.getField(request, rule.path);
+      if (path) {
+        const bucket = this.getField(request, rule.bucket);
+        fileId = (await this.access.resolveExistingFolder({path, parentId: fileId, bucket})) ?? undefined;
+      }
+
+      // [step 2] Check the permission of the principal on it.
+      if (rule.required && !fileId) {
+        return false;
+      }
+      if (!(await this.access.hasPermission(principal, fileId, rule.permission))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private getField(request: Request, field?: RequestField) {
+    if (!field) {
+      return undefined;
+    }
+
+    const [source, name] = field.split('.');
+    const values = source === 'param' ? request.params : source === 'query' ? request.query : request.body;
+    const value = values?.[name];
+    return typeof value === 'string' && value.length > 0 ? value : undefined;
+  }
+}
@@ -0,0 +1,247 @@
+import {ForbiddenException, Injectable} from '@nestjs/common';
+import {ConfigService} from '@nestjs/config';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {Prisma, S3FilePermissionLevel, S3FilePrincipalType} from '@generated/prisma/client';
+
+/** The caller of a route, read from `request.user` as set by the authentication of the application. */
+export interface AwsS3Principal {
+  userId: string;
+  roles: string[]; // Role names, the ones in the `adminRoles` setting bypass the permissions.
+}
+
+const PERMISSION_RANKS: Record<S3FilePermissionLevel, number> = {read: 1, write: 2, manage: 3};
+
+/**
+ * The principal of a request, undefined if it is not authenticated.
+ * The user ID is read from `userId`, `id` or `sub`, the roles from `roles` or `role`, as names or `{name}` objects.
+ */
+export function getAwsS3Principal(request: {user?: unknown}): AwsS3Principal | undefined {
+  const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+  const user = isRecord(request.user) ? request.user : {};
+  const userId = user.userId ?? user.id ?? user.sub;
+  if ((typeof userId !== 'string' && typeof userId !== 'number') || userId === '') {
+    return undefined;
+  }
+
+  const roles: unknown[] = Array.isArray(user.roles) ? user.roles : user.role ? [user.role] : [];
+  return {
+    userId: String(userId),
+    roles: roles.map(role => String(isRecord(role) && 'name' in role ? role.name : role)),
+  };
+}
+
+/**
+ * Controls who can do what on files and folders:
+ * - the owner of a file, the user who created it, can manage it,
+ * - permissions are granted to users or roles on a file or folder, a folder grants them on everything under it,
+ * - the highest permission found on the file and on the folders above it applies,
+ * - the roles in the `adminRoles` setting can do anything.
+ * The bucket root has no owner, the `rootPermission` setting applies there to everyone ('read', 'write' or 'none').
+ * AwsS3FileService checks the principal passed to its methods, the routes pass the one of the request.
+ * Called without a principal, e.g. by the janitor, it acts as the application itself with full access.
+ * The other services (quotas, share links, images, grants) only check it on their routes, by AwsS3AccessGuard.
+ */
+@Injectable()
+export class AwsS3AccessService {
+  private bucket: string;
+  private adminRoles: string[];
+  private rootPermission: S3FilePermissionLevel | 'none';
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService
+  ) {
+    this.bucket = this.config.getOrThrow<string>('microservices.aws-s3.bucket');
+    this.adminRoles = this.config.get<string[]>('microservices.aws-s3.adminRoles') ?? [];
+    this.rootPermission =
+      this.config.get<S3FilePermissionLevel | 'none'>('microservices.aws-s3.rootPermission') ?? 'read';
+  }
+
+  isAdmin(principal: AwsS3Principal) {
+    return principal.roles.some(role => this.adminRoles.includes(role));
+  }
+
+  /** The highest permission of the principal on a file or folder, undefined if it has none. */
+  async getPermission(principal: AwsS3Principal, fileId: string): Promise<S3FilePermissionLevel | undefined> {
+    if (this.isAdmin(principal)) {
+      return S3FilePermissionLevel.manage;
+    }
+
+    // [step 1] The owner of the file, or of a folder above it, can manage it.
+    const ancestorIds: string[] = [];
+    let parentId: string | null = fileId;
+    while (parentId) {
+      const file: {parentId: string | null; ownerId: string | null} = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: parentId},
+        select: {parentId: true, ownerId: true},
+      });
+      if (file.ownerId === principal.userId) {
+        return S3FilePermissionLevel.manage;
+      }
+      ancestorIds.push(parentId);
+      parentId = file.parentId;
+    }
+
+    // [step 2] Otherwise, the highest permission granted on them.
+    const grants: {permission: S3FilePermissionLevel}[] = await this.prisma.s3FilePermission.findMany({
+      where: {fileId: {in: ancestorIds}, OR: this.getPrincipalFilter(principal)},
+      select: {permission: true},
+    });
+    return grants.map(({permission}) => permission).sort((a, b) => PERMISSION_RANKS[b] - PERMISSION_RANKS[a])[0];
+  }
+
+  /** Whether the principal has the permission, or a higher one. No `fileId` means the bucket root. */
+  async hasPermission(principal: AwsS3Principal, fileId: string | null | undefined, permission: S3FilePermissionLevel) {
+    if (!fileId) {
+      return (
+        this.isAdmin(principal) ||
+        (this.rootPermission !== 'none' && PERMISSION_RANKS[this.rootPermission] >= PERMISSION_RANKS[permission])
+      );
+    }
+
+    const granted = await this.getPermission(principal, fileId);
+    return !!granted && PERMISSION_RANKS[granted] >= PERMISSION_RANKS[permission];
+  }
+
+  async checkPermission(
+    principal: AwsS3Principal,
+    fileId: string | null | undefined,
+    permission: S3FilePermissionLevel
+  ) {
+    if (!(await this.hasPermission(principal, fileId, permission))) {
+      throw new ForbiddenException(`The '${permission}' permission is required on ${fileId ? fileId : 'the root'}.`);
+    }
+  }
+
+  /**
+   * Narrow a query on files across folders to the ones the principal owns or was granted a permission on directly.
+   * Used at the bucket root and by the bucket-wide listings, admins see everything.
+   */
+  async getVisibleFilter(principal: AwsS3Principal): Promise<Prisma.S3FileWhereInput> {
+    if (this.isAdmin(principal)) {
+      return {};
+    }
+
+    const grants: {fileId: string}[] = await this.prisma.s3FilePermission.findMany({
+      where: {OR: this.getPrincipalFilter(principal)},
+      select: {fileId: true},
+    });
+    return {OR: [{ownerId: principal.userId}, {id: {in: grants.map(({fileId}) => fileId)}}]};
+  }
+
+  /** Like getVisibleFilter, as a condition on the rows of the S3File table in a raw query. */
+  getVisibleCondition(principal: AwsS3Principal): Prisma.Sql {
+    if (this.isAdmin(principal)) {
+      return Prisma.sql`TRUE`;
+    }
+
+    return Prisma.sql`("ownerId" = ${principal.userId} OR id IN (
+      SELECT "fileId" FROM "microservice/aws-s3"."S3FilePermission"
+      WHERE ("principalType" = 'user' AND "principalId" = ${principal.userId})
+        OR ("principalType" = 'role' AND "principalId" = ANY(${principal.roles}::text[]))
+    ))`;
+  }
+
+  /**
+   * The deepest existing folder of a path, where its missing folders would be created.
+   * It is the folder to check before createOrGetFolder, the folders it creates belong to the caller.
+   */
+  async resolveExistingFolder(params: {path: string; parentId?: string | null; bucket?: string}) {
+    let parentId = params.parentId ?? null;
+    for (const name of params.path.split('/')) {
+      if (name.length === 0) {
+        continue;
+      }
+
+      const folder: {id: string} | null = await this.prisma.s3File.findFirst({
+        where: {
+          name,
+          type: 'folder',
+          parentId,
+          ...(parentId ? {} : {s3Bucket: params.bucket || this.bucket}),
+          trashedAt: null,
+        },
+        select: {id: true},
+      });
+      if (!folder) {
+        break;
+      }
+      parentId = folder.id;
+    }
+    return parentId;
+  }
+
+  //*******************/
+  //* Grants          */
+  //*******************/
+
+  async listPermissions(fileId: string) {
+    return await this.prisma.s3FilePermission.findMany({
+      where: {fileId},
+      orderBy: {createdAt: 'asc'},
+    });
+  }
+
+  /** Grant a permission to a user or a role, replacing the one it already has on the file. */
+  async grantPermission(params: {
+    fileId: string;
+    principalType: S3FilePrincipalType;
+    principalId: string;
+    permission: S3FilePermissionLevel;
+  }) {
+    await this.prisma.s3File.findFirstOrThrow({where: {id: params.fileId}, select: {id: true}});
+
+    const {fileId, principalType, principalId, permission} = params;
+    return await this.prisma.s3FilePermission.upsert({
+      where: {fileId_principalType_principalId: {fileId, principalType, principalId}},
+      create: {fileId, principalType, principalId, permission},
+      update: {permission},
+    });
+  }
+
+  async revokePermission(params: {fileId: string; permissionId: string}) {
+    await this.prisma.s3FilePermission.findFirstOrThrow({
+      where: {id: params.permissionId, fileId: params.fileId},
+      select: {id: true},
+    });
+    await this.prisma.s3FilePermission.delete({where: {id: params.permissionId}});
+  }
+
+  /** Transfer a file or folder to another user, the previous owner keeps only the permissions granted to them. */
+  async setOwner(params: {fileId: string; ownerId: string | null}) {
+    return await this.prisma.s3File.update({
+      where: {id: params.fileId},
+      data: {ownerId: params.ownerId},
+    });
+  }
+
+  /** A copied or moved file or folder keeps its grants. */
+  async copyPermissions(params: {fileId: string; destinationFileId: string}) {
+    const grants = await this.prisma.s3FilePermission.findMany({where: {fileId: params.fileId}});
+    if (grants.length > 0) {
+      await this.prisma.s3FilePermission.createMany({
+        data: grants.map(({principalType, principalId, permission}) => ({
+          fileId: params.destinationFileId,
+          principalType,
+          principalId,
+          permission,
+        })),
+      });
+    }
+  }
+
+  async deletePermissions(fileIds: string[]) {
+    await this.prisma.s3FilePermission.deleteMany({where: {fileId: {in: fileIds}}});
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private getPrincipalFilter(principal: AwsS3Principal) {
+    return [
+      {principalType: S3FilePrincipalType.user, principalId: principal.userId},
+      {principalType: S3FilePrincipalType.role, principalId: {in: principal.roles}},
+    ];
+  }
+}
@@ -0,0 +1,44 @@
+import {Get, Body, Post, Param, Query, Delete, UseGuards, Controller} from '@nestjs/common';
+import {ApiTags, ApiResponse, ApiBearerAuth} from '@nestjs/swagger';
+import {Prisma} from '@generated/prisma/client';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {BucketEntity, CreateBucketRequestDto, ListBucketsRequestDto, ListBucketsResponseDto} from './aws-s3-bucket.dto';
+import {AwsS3BucketService} from './aws-s3-bucket.service';
+import {AwsS3AccessGuard, RequireAccess} from './aws-s3-access.guard';
+
+@ApiTags('AWS / S3')
+@ApiBearerAuth()
+@UseGuards(AwsS3AccessGuard)
+@Controller('aws-s3/buckets')
+export class AwsS3BucketController {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly s3Bucket: AwsS3BucketService
+  ) {}
+
+  @Post('')
+  @RequireAccess({permission: 'admin'})
+  @ApiResponse({type: BucketEntity})
+  async createBucket(@Body() body: CreateBucketRequestDto) {
+    return await this.s3Bucket.createBucket(body.name, {versioning: body.versioning});
+  }
+
+  @Get('')
+  @RequireAccess()
+  @ApiResponse({type: ListBucketsResponseDto})
+  async listBuckets(@Query() query: ListBucketsRequestDto) {
+    return await this.prisma.findManyInManyPages({
+      model: Prisma.ModelName.S3Bucket,
+      pagination: {page: query.page, pageSize: query.pageSize},
+      findManyArgs: {orderBy: {name: 'asc'}},
+    });
+  }
+
+  @Delete(':name')
+  @RequireAccess({permission: 'admin'})
+  async deleteBucket(@Param('name') name: string) {
+    return await this.s3Bucket.deleteBucket(name);
+  }
+
+  /* End */
+}
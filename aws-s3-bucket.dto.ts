@@ -0,0 +1,46 @@
+import {ApiProperty} from '@nestjs/swagger';
+import {IsBoolean, IsOptional, IsString} from 'class-validator';
+import {CommonListRequestDto, CommonListResponseDto} from '@framework/common.dto';
+
+export class BucketEntity {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String})
+  name: string;
+
+  @ApiProperty({type: Boolean})
+  versioning: boolean;
+
+  @ApiProperty({type: String})
+  createdAt: string;
+
+  @ApiProperty({type: String})
+  updatedAt: string;
+}
+
+export class CreateBucketRequestDto {
+  @ApiProperty({
+    type: String,
+    required: true,
+    description: 'Must follow the S3 bucket naming rules.',
+  })
+  @IsString()
+  name: string;
+
+  @ApiProperty({
+    type: Boolean,
+    required: false,
+    description: 'Default to false. Keep the prior versions of overwritten and deleted files.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  versioning?: boolean;
+}
+
+export class ListBucketsRequestDto extends CommonListRequestDto {}
+
+export class ListBucketsResponseDto extends CommonListResponseDto {
+  @ApiProperty({type: BucketEntity, isArray: true})
+  declare records: BucketEntity[];
+}
@@ -0,0 +1,45 @@
+import {Inject, Injectable} from '@nestjs/common';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {AWS_S3_STORAGE_DRIVER, AwsS3StorageDriver} from './aws-s3.driver';
+import {verifyS3BucketName} from './aws-s3.validator';
+
+@Injectable()
+export class AwsS3BucketService {
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(AWS_S3_STORAGE_DRIVER) private readonly s3: AwsS3StorageDriver
+  ) {}
+
+  /** Create a bucket in AWS S3, then record it in the database. */
+  async createBucket(name: string, options: {versioning?: boolean} = {}) {
+    // [step 1] Validate the bucket name.
+    if (!verifyS3BucketName(name)) {
+      throw new Error(`'${name}' is not a valid S3 bucket name.`);
+    }
+
+    const existingBucket = await this.prisma.s3Bucket.findUnique({where: {name}});
+    if (existingBucket) {
+      throw new Error(`The bucket '${name}' already exists.`);
+    }
+
+    // [step 2] Create the bucket in S3 and record it.
+    await this.s3.createBucket(name);
+    if (options.versioning) {
+      await this.s3.putBucketVersioning(name, true);
+    }
+    return await this.prisma.s3Bucket.create({data: {name, versioning: options.versioning ?? false}});
+  }
+
+  /** Delete an empty bucket in AWS S3, then delete its record in the database. */
+  async deleteBucket(name: string) {
+    const bucket = await this.prisma.s3Bucket.findUniqueOrThrow({where: {name}});
+
+    const count = await this.prisma.s3File.count({where: {s3Bucket: name}});
+    if (count > 0) {
+      throw new Error(`The bucket '${name}' is not empty.`);
+    }
+
+    await this.s3.deleteBucket(name);
+    await this.prisma.s3Bucket.delete({where: {id: bucket.id}});
+  }
+}
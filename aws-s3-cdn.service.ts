@@ -0,0 +1,150 @@
+import {Inject, Injectable} from '@nestjs/common';
+import {ConfigService} from '@nestjs/config';
+import {getSignedCookies, getSignedUrl} from '@aws-sdk/cloudfront-signer';
+import {AWS_S3_STORAGE_DRIVER, AwsS3DriverName, AwsS3StorageDriver} from './aws-s3.driver';
+
+/**
+ * How a file is downloaded:
+ * - 'cdn': a plain CDN URL, for the keys under the `cdnPublicPaths`,
+ * - 'cloudfront': a CloudFront URL signed with the `cdnKeyPairId` key pair,
+ * - 's3': an S3 presigned URL, when there is no CDN, for the other buckets and for prior versions.
+ */
+export type AwsS3UrlStrategy = 'cdn' | 'cloudfront' | 's3';
+
+/**
+ * Builds the download URLs of the files, picking the strategy of each file.
+ * The CDN at `cdnHostname` fronts the configured bucket of the S3 driver, the emulated drivers keep their own URLs.
+ * CloudFront URLs and cookies are signed with a custom policy, which expires after `signedUrlExpiresIn` seconds
+ * and is restricted to the IP address of the client when `cdnRestrictIp` is set.
+ */
+@Injectable()
+export class AwsS3CdnService {
+  private bucket: string;
+  private driver: AwsS3DriverName;
+  private signedUrlExpiresIn: number;
+  private cdnHostname: string | undefined;
+  private cdnKeyPairId: string | undefined;
+  private cdnPrivateKey: string | undefined;
+  private cdnPublicPaths: string[];
+  private cdnRestrictIp: boolean;
+  private cdnCookieDomain: string | undefined;
+
+  constructor(
+    private readonly config: ConfigService,
+    @Inject(AWS_S3_STORAGE_DRIVER) private readonly s3: AwsS3StorageDriver
+  ) {
+    this.bucket = this.config.getOrThrow<string>('microservices.aws-s3.bucket');
+    this.driver = this.config.get<AwsS3DriverName>('microservices.aws-s3.driver') || 's3';
+    this.signedUrlExpiresIn = this.config.getOrThrow<number>('microservices.aws-s3.signedUrlExpiresIn');
+    this.cdnHostname = this.config.get<string>('microservices.aws-s3.cdnHostname');
+    this.cdnKeyPairId = this.config.get<string>('microservices.aws-s3.cdnKeyPairId');
+    // A PEM key in an environment variable often has its line breaks escaped.
+    this.cdnPrivateKey = this.config.get<string>('microservices.aws-s3.cdnPrivateKey')?.replace(/\\n/g, '\n');
+    this.cdnPublicPaths = this.config.get<string[]>('microservices.aws-s3.cdnPublicPaths') ?? [];
+    this.cdnRestrictIp = this.config.get<boolean>('microservices.aws-s3.cdnRestrictIp') ?? false;
+    this.cdnCookieDomain = this.config.get<string>('microservices.aws-s3.cdnCookieDomain');
+  }
+
+  getUrlStrategy(file: {s3Bucket: string; s3Key: string}, versionId?: string): AwsS3UrlStrategy {
+    // CloudFront does not forward the versionId query parameter to S3 by default.
+    if (!this.cdnHostname || this.driver !== 's3' || file.s3Bucket !== this.bucket || versionId) {
+      return 's3';
+    }
+    if (this.cdnPublicPaths.some(path => file.s3Key.startsWith(path))) {
+      return 'cdn';
+    }
+    return this.canSign() ? 'cloudfront' : 's3';
+  }
+
+  /** The URL to download a file with, `ipAddress` is the client's one. */
+  async getDownloadUrl(params: {file: {s3Bucket: string; s3Key: string}; versionId?: string; ipAddress?: string}) {
+    const {file} = params;
+    switch (this.getUrlStrategy(file, params.versionId)) {
+      case 'cdn':
+        return this.getCdnUrl(file.s3Key);
+      case 'cloudfront': {
+        const url = this.getCdnUrl(file.s3Key);
+        return getSignedUrl({
+          url,
+          keyPairId: this.cdnKeyPairId!,
+          privateKey: this.cdnPrivateKey!,
+          policy: this.getPolicy(url, this.getExpiresAt(), params.ipAddress),
+        });
+      }
+      case 's3':
+        return await this.s3.getSignedDownloadUrl({
+          bucket: file.s3Bucket,
+          key: file.s3Key,
+          versionId: params.versionId,
+        });
+    }
+  }
+
+  /** Add the download URL of each file, null for folders and the files not uploaded yet. */
+  async addDownloadUrls<T extends {type: string | null; status: string; s3Bucket: string; s3Key: string}>(
+    files: T[],
+    ipAddress?: string
+  ) {
+    const filesWithUrls: (T & {url: string | null})[] = [];
+    for (const file of files) {
+      const downloadable = file.type !== 'folder' && file.status === 'available';
+      filesWithUrls.push({...file, url: downloadable ? await this.getDownloadUrl({file, ipAddress}) : null});
+    }
+    return filesWithUrls;
+  }
+
+  /**
+   * CloudFront signed cookies granting access to all the keys under a folder.
+   * They are set on `cdnCookieDomain`, which must cover `cdnHostname` for the browser to send them to the CDN.
+   */
+  getSignedCookies(params: {folder: {s3Bucket: string; s3Key: string}; ipAddress?: string}) {
+    if (this.getUrlStrategy(params.folder) === 's3' || !this.canSign()) {
+      throw new Error('The folder is not served by CloudFront, or `cdnKeyPairId` and `cdnPrivateKey` are missing.');
+    }
+
+    const expiresAt = this.getExpiresAt();
+    const cookies = getSignedCookies({
+      keyPairId: this.cdnKeyPairId!,
+      privateKey: this.cdnPrivateKey!,
+      policy: this.getPolicy(this.getCdnUrl(params.folder.s3Key) + '*', expiresAt, params.ipAddress),
+    });
+    return {cookies: cookies as unknown as Record<string, string>, expiresAt, domain: this.cdnCookieDomain};
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private canSign() {
+    return !!this.cdnKeyPairId && !!this.cdnPrivateKey;
+  }
+
+  private getExpiresAt() {
+    return new Date(Date.now() + this.signedUrlExpiresIn * 1000);
+  }
+
+  private getCdnUrl(s3Key: string) {
+    const hostname = this.cdnHostname!.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+    return `https://${hostname}/${s3Key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  /** A custom policy, restricted to the IP address if `cdnRestrictIp` is set. */
+  private getPolicy(resource: string, expiresAt: Date, ipAddress?: string) {
+    const epochTime = Math.floor(expiresAt.getTime() / 1000);
+    const sourceIp = this.cdnRestrictIp && ipAddress ? ipAddress.replace(/^::ffff:/, '') : undefined;
+
+    return JSON.stringify({
+      Statement: [
+        {
+          Resource: resource,
+          Condition: {
+            DateLessThan: {'AWS:EpochTime': epochTime},
+            ...(sourceIp
+              ? {IpAddress: {'AWS:SourceIp': sourceIp.includes(':') ? `${sourceIp}/128` : `${sourceIp}/32`}}
+              : {}),
+          },
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,596 @@
+import {ConfigService} from '@nestjs/config';
+import {NoSuchKey, NoSuchUpload, S3ServiceException} from '@aws-sdk/client-s3';
+import {sdkStreamMixin} from '@smithy/util-stream';
+import {createHash, randomUUID} from 'crypto';
+import {Readable} from 'stream';
+import {AwsS3ChecksumAlgorithm, AwsS3StorageDriver} from './aws-s3.driver';
+import {verifyS3Metadata, verifyS3Tags} from './aws-s3.validator';
+
+/** What an emulated driver records next to the bytes of every object. */
+export interface EmulatedObject {
+  key: string;
+  size: number;
+  etag: string;
+  lastModified: Date;
+  contentType?: string;
+  contentEncoding?: string;
+  checksumSHA256?: string;
+  tags?: Record<string, string>;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Base class of the drivers that emulate S3 without AWS.
+ * It implements the S3 semantics (ETags, multipart assembly, prefix listing, S3 errors),
+ * subclasses only decide where the bytes and the object records are kept.
+ * Buckets are never versioned, every object has a single version, 'null', as in S3.
+ */
+export abstract class AwsS3EmulatedDriver implements AwsS3StorageDriver {
+  protected bucket: string;
+  private multipartUploads = new Map<
+    string,
+    {
+      bucket: string;
+      key: string;
+      contentType?: string;
+      checksumAlgorithm?: AwsS3ChecksumAlgorithm;
+      tags?: Record<string, string>;
+      metadata?: Record<string, string>;
+      initiated: Date;
+      parts: Map<number, Buffer>;
+    }
+  >();
+
+  constructor(protected readonly config: ConfigService) {
+    this.bucket = this.config.getOrThrow<string>('microservices.aws-s3.bucket');
+  }
+
+  //**********************/
+  //* Storage primitives */
+  //**********************/
+
+  protected abstract createBucketStorage(bucket: string): Promise<void>;
+
+  /** Returns false if the bucket does not exist. Must throw if the bucket is not empty. */
+  protected abstract deleteBucketStorage(bucket: string): Promise<boolean>;
+
+  protected abstract readObject(bucket: string, key: string): Promise<EmulatedObject | undefined>;
+
+  /** `range` is inclusive, as in HTTP. */
+  protected abstract readObjectBody(
+    bucket: string,
+    key: string,
+    range?: {start: number; end: number}
+  ): Promise<Readable>;
+
+  protected abstract writeObject(bucket: string, object: EmulatedObject, body: Buffer): Promise<void>;
+
+  protected abstract removeObject(bucket: string, key: string): Promise<void>;
+
+  protected abstract listObjects(bucket: string, prefix?: string): Promise<EmulatedObject[]>;
+
+  protected abstract getObjectUrl(bucket: string, key: string): string;
+
+  //*********************/
+  //* Bucket operations */
+  //*********************/
+
+  async createBucket(bucketName: string) {
+    await this.createBucketStorage(bucketName);
+    return {$metadata: {}, Location: `/${bucketName}`};
+  }
+
+  async deleteBucket(bucketName: string) {
+    if (!(await this.deleteBucketStorage(bucketName))) {
+      throw this.serviceException('NoSuchBucket', 'The specified bucket does not exist.');
+    }
+    return {$metadata: {}};
+  }
+
+  async putBucketVersioning(bucketName: string, enabled: boolean) {
+    if (enabled) {
+      throw this.serviceException('NotImplemented', 'Versioning is not supported by the emulated drivers.', 501);
+    }
+    return {$metadata: {}};
+  }
+
+  //*********************/
+  //* Object operations */
+  //*********************/
+
+  async getObject(params: {
+    bucket?: string;
+    key: string;
+    range?: string;
+    ifNoneMatch?: string;
+    ifModifiedSince?: Date;
+    versionId?: string;
+  }) {
+    this.checkVersionId(params.versionId);
+    const bucket = params.bucket ?? this.bucket;
+    const object = await this.readObject(bucket, params.key);
+    if (!object) {
+      throw new NoSuchKey({message: 'The specified key does not exist.', $metadata: {}});
+    }
+
+    // [step 1] Evaluate the conditions. If-None-Match takes precedence over If-Modified-Since.
+    const notModified =
+      params.ifNoneMatch !== undefined
+        ? params.ifNoneMatch === '*' || params.ifNoneMatch.split(/\s*,\s*/).includes(object.etag)
+        : params.ifModifiedSince !== undefined &&
+          Math.floor(object.lastModified.getTime() / 1000) <= Math.floor(params.ifModifiedSince.getTime() / 1000);
+    if (notModified) {
+      throw this.serviceException('NotModified', 'Not Modified', 304);
+    }
+
+    // [step 2] Evaluate the range.
+    const range = params.range ? this.parseRange(params.range, object.size) : undefined;
+
+    return {
+      $metadata: {httpStatusCode: range ? 206 : 200},
+      Body: sdkStreamMixin(await this.readObjectBody(bucket, params.key, range)),
+      AcceptRanges: 'bytes',
+      ContentLength: range ? range.end - range.start + 1 : object.size,
+      ContentRange: range ? `bytes ${range.start}-${range.end}/${object.size}` : undefined,
+      ContentType: object.contentType,
+      ContentEncoding: object.contentEncoding,
+      ChecksumSHA256: object.checksumSHA256,
+      Metadata: object.metadata,
+      ETag: object.etag,
+      LastModified: object.lastModified,
+    };
+  }
+
+  async headObject(params: {bucket?: string; key: string; versionId?: string}) {
+    this.checkVersionId(params.versionId, 404);
+    const object = await this.readObject(params.bucket ?? this.bucket, params.key);
+    if (!object) {
+      throw this.serviceException('NotFound', 'Not Found', 404);
+    }
+
+    return {
+      $metadata: {},
+      AcceptRanges: 'bytes',
+      ContentLength: object.size,
+      ContentType: object.contentType,
+      ContentEncoding: object.contentEncoding,
+      ChecksumSHA256: object.checksumSHA256,
+      Metadata: object.metadata,
+      ETag: object.etag,
+      LastModified: object.lastModified,
+    };
+  }
+
+  async putObject(params: {
+    bucket?: string;
+    key: string;
+    body?: Buffer | string;
+    contentType?: string;
+    checksumSHA256?: string;
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }) {
+    const body = Buffer.from(params.body ?? '');
+    this.checkChecksum(body, params.checksumSHA256);
+    this.checkAttributes(params);
+    const object = await this.saveObject(params.bucket ?? this.bucket, params.key, body, {
+      contentType: params.contentType,
+      checksumSHA256: params.checksumSHA256,
+      tags: params.tags,
+      metadata: this.lowercaseKeys(params.metadata),
+    });
+    return {$metadata: {}, ETag: object.etag, ChecksumSHA256: object.checksumSHA256};
+  }
+
+  async copyObject(params: {
+    bucket?: string;
+    sourceKey: string;
+    sourceVersionId?: string;
+    destinationKey: string;
+    destinationBucket?: string;
+    metadata?: Record<string, string>;
+  }) {
+    this.checkVersionId(params.sourceVersionId);
+    this.checkAttributes(params);
+    const bucket = params.bucket ?? this.bucket;
+    const source = await this.readObject(bucket, params.sourceKey);
+    if (!source) {
+      throw new NoSuchKey({message: 'The specified key does not exist.', $metadata: {}});
+    }
+
+    const body = await this.readObjectBuffer(bucket, params.sourceKey);
+    const object = await this.saveObject(params.destinationBucket ?? bucket, params.destinationKey, body, {
+      contentType: source.contentType,
+      contentEncoding: source.contentEncoding,
+      checksumSHA256: source.checksumSHA256,
+      tags: source.tags,
+      metadata: params.metadata ? this.lowercaseKeys(params.metadata) : source.metadata,
+    });
+    return {
+      $metadata: {},
+      CopyObjectResult: {ETag: object.etag, ChecksumSHA256: object.checksumSHA256, LastModified: object.lastModified},
+    };
+  }
+
+  async moveObject(params: {bucket?: string; sourceKey: string; destinationKey: string; destinationBucket?: string}) {
+    // [step 1] Copy the object to the new location
+    await this.copyObject(params);
+
+    // [step 2] Delete the original object
+    await this.removeObject(params.bucket ?? this.bucket, params.sourceKey);
+  }
+
+  async deleteObject(params: {bucket?: string; key: string; versionId?: string}) {
+    this.checkVersionId(params.versionId);
+    // S3 DeleteObjects succeeds for keys that do not exist.
+    await this.removeObject(params.bucket ?? this.bucket, params.key);
+    return {$metadata: {}, Deleted: [{Key: params.key}]};
+  }
+
+  async deleteObjects(params: {bucket?: string; objects: {key: string; versionId?: string}[]}) {
+    const errors: {key: string; versionId?: string; message: string}[] = [];
+    for (const object of params.objects) {
+      try {
+        await this.deleteObject({bucket: params.bucket, key: object.key, versionId: object.versionId});
+      } catch (error) {
+        errors.push({...object, message: error instanceof Error ? error.message : String(error)});
+      }
+    }
+    return errors;
+  }
+
+  async deleteObjectRecursively(params: {bucket: string; key: string}) {
+    const bucket = params.bucket ?? this.bucket;
+    for (const object of await this.listObjects(bucket, params.key)) {
+      await this.removeObject(bucket, object.key);
+    }
+  }
+
+  async putObjectTagging(params: {bucket?: string; key: string; tags: Record<string, string>}) {
+    const bucket = params.bucket ?? this.bucket;
+    const object = await this.readObject(bucket, params.key);
+    if (!object) {
+      throw new NoSuchKey({message: 'The specified key does not exist.', $metadata: {}});
+    }
+    this.checkAttributes(params);
+
+    // Tagging does not change the object, so it keeps its ETag and LastModified.
+    const tags = Object.keys(params.tags).length > 0 ? params.tags : undefined;
+    await this.writeObject(bucket, {...object, tags}, await this.readObjectBuffer(bucket, params.key));
+    return {$metadata: {}};
+  }
+
+  async getObjectsRecursively(params: {bucket?: string; prefix?: string}) {
+    const objects = await this.listObjects(params.bucket ?? this.bucket, params.prefix);
+    return objects
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map(object => {
+        return {s3Key: object.key, size: object.size};
+      });
+  }
+
+  async listObjectVersions(params: {bucket?: string; key: string}) {
+    const object = await this.readObject(params.bucket ?? this.bucket, params.key);
+    if (!object) {
+      return [];
+    }
+
+    return [
+      {
+        VersionId: 'null',
+        IsLatest: true,
+        IsDeleteMarker: false,
+        Size: object.size,
+        ETag: object.etag,
+        LastModified: object.lastModified,
+      },
+    ];
+  }
+
+  //*******************************/
+  //* Multipart upload operations */
+  //*******************************/
+
+  async createMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    checksumAlgorithm?: AwsS3ChecksumAlgorithm;
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }) {
+    this.checkAttributes(params);
+    const bucket = params.bucket ?? this.bucket;
+    const uploadId = randomUUID();
+    this.multipartUploads.set(uploadId, {
+      bucket,
+      key: params.key,
+      contentType: params.contentType,
+      checksumAlgorithm: params.checksumAlgorithm,
+      tags: params.tags,
+      metadata: this.lowercaseKeys(params.metadata),
+      initiated: new Date(),
+      parts: new Map(),
+    });
+    return {$metadata: {}, Bucket: bucket, Key: params.key, UploadId: uploadId};
+  }
+
+  async uploadPart(params: {
+    bucket?: string;
+    key: string;
+    body: Buffer | Uint8Array | Blob | string;
+    partNumber: number;
+    uploadId: string;
+    checksumSHA256?: string;
+  }) {
+    const upload = this.getMultipartUpload(params);
+    const body = params.body instanceof Blob ? Buffer.from(await params.body.arrayBuffer()) : Buffer.from(params.body);
+
+    // The checksum of a part is required if and only if the upload was created with a checksum algorithm.
+    if (upload.checksumAlgorithm && !params.checksumSHA256) {
+      throw this.serviceException('InvalidRequest', 'The upload was created using a sha256 checksum.');
+    }
+    if (!upload.checksumAlgorithm && params.checksumSHA256) {
+      throw this.serviceException('InvalidRequest', 'The upload was created without a checksum algorithm.');
+    }
+    this.checkChecksum(body, params.checksumSHA256);
+    upload.parts.set(params.partNumber, body);
+
+    return {
+      ETag: this.etag(body),
+      PartNumber: params.partNumber,
+      ChecksumSHA256: params.checksumSHA256,
+    };
+  }
+
+  async uploadPartCopy(params: {
+    bucket?: string;
+    sourceKey: string;
+    sourceVersionId?: string;
+    sourceRange: {start: number; end: number};
+    destinationBucket?: string;
+    destinationKey: string;
+    partNumber: number;
+    uploadId: string;
+  }) {
+    this.checkVersionId(params.sourceVersionId);
+    const bucket = params.bucket ?? this.bucket;
+    const upload = this.getMultipartUpload({
+      bucket: params.destinationBucket ?? bucket,
+      key: params.destinationKey,
+      uploadId: params.uploadId,
+    });
+    if (!(await this.readObject(bucket, params.sourceKey))) {
+      throw new NoSuchKey({message: 'The specified key does not exist.', $metadata: {}});
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.readObjectBody(bucket, params.sourceKey, params.sourceRange)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const body = Buffer.concat(chunks);
+    upload.parts.set(params.partNumber, body);
+
+    return {
+      ETag: this.etag(body),
+      PartNumber: params.partNumber,
+      ChecksumSHA256: upload.checksumAlgorithm ? this.checksumSHA256(body) : undefined,
+    };
+  }
+
+  async listParts(params: {bucket?: string; key: string; uploadId: string}) {
+    const upload = this.getMultipartUpload(params);
+    return [...upload.parts.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([partNumber, body]) => {
+        return {
+          PartNumber: partNumber,
+          ETag: this.etag(body),
+          Size: body.length,
+          ChecksumSHA256: upload.checksumAlgorithm ? this.checksumSHA256(body) : undefined,
+        };
+      });
+  }
+
+  async completeMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    parts: {ETag: string; PartNumber: number; ChecksumSHA256?: string}[];
+    uploadId: string;
+  }) {
+    const upload = this.getMultipartUpload(params);
+
+    // [step 1] Check the parts against the uploaded ones, as S3 does.
+    const bodies: Buffer[] = [];
+    for (const part of params.parts) {
+      const body = upload.parts.get(part.PartNumber);
+      if (!body || this.etag(body) !== part.ETag) {
+        throw this.serviceException('InvalidPart', `Part ${part.PartNumber} could not be found.`);
+      }
+      if (upload.checksumAlgorithm && part.ChecksumSHA256 !== this.checksumSHA256(body)) {
+        throw this.serviceException('InvalidPart', `Part ${part.PartNumber} has a missing or wrong checksum.`);
+      }
+      bodies.push(body);
+    }
+
+    // [step 2] Assemble the object. The ETag of a multipart object is the MD5 of the part MD5s,
+    // and its checksum is the checksum of the part checksums.
+    const digests = bodies.map(body => createHash('md5').update(body).digest());
+    const etag = `"${createHash('md5').update(Buffer.concat(digests)).digest('hex')}-${bodies.length}"`;
+    let checksumSHA256: string | undefined;
+    if (upload.checksumAlgorithm) {
+      const checksums = bodies.map(body => createHash('sha256').update(body).digest());
+      checksumSHA256 = `${this.checksumSHA256(Buffer.concat(checksums))}-${bodies.length}`;
+    }
+    const object = await this.saveObject(upload.bucket, upload.key, Buffer.concat(bodies), {
+      etag,
+      contentType: upload.contentType,
+      checksumSHA256,
+      tags: upload.tags,
+      metadata: upload.metadata,
+    });
+    this.multipartUploads.delete(params.uploadId);
+
+    return {
+      $metadata: {},
+      Bucket: upload.bucket,
+      Key: upload.key,
+      ETag: object.etag,
+      ChecksumSHA256: object.checksumSHA256,
+      Location: this.getObjectUrl(upload.bucket, upload.key),
+    };
+  }
+
+  async listMultipartUploads(params: {bucket?: string}) {
+    const bucket = params.bucket ?? this.bucket;
+    return [...this.multipartUploads.entries()]
+      .filter(([, upload]) => upload.bucket === bucket)
+      .map(([uploadId, upload]) => {
+        return {Key: upload.key, UploadId: uploadId, Initiated: upload.initiated};
+      });
+  }
+
+  async abortMultipartUpload(params: {bucket?: string; key: string; uploadId: string}) {
+    this.getMultipartUpload(params);
+    this.multipartUploads.delete(params.uploadId);
+    return {$metadata: {}};
+  }
+
+  //*****************************/
+  //* Get signed URL operations */
+  //*****************************/
+
+  async getSignedDownloadUrl(params: {bucket?: string; key: string; versionId?: string}) {
+    this.checkVersionId(params.versionId);
+    return this.getObjectUrl(params.bucket ?? this.bucket, params.key);
+  }
+
+  async getSignedUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    contentEncoding?: string;
+    checksumSHA256?: string;
+    metadata?: Record<string, string>;
+  }) {
+    return this.getObjectUrl(params.bucket ?? this.bucket, params.key);
+  }
+
+  async getSignedMultipartUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    partNumber: number;
+    uploadId: string;
+    checksumSHA256?: string;
+  }) {
+    const url = this.getObjectUrl(params.bucket ?? this.bucket, params.key);
+    return `${url}?partNumber=${params.partNumber}&uploadId=${params.uploadId}`;
+  }
+
+  //*********************/
+  //* Protected helpers */
+  //*********************/
+
+  protected async readObjectBuffer(bucket: string, key: string) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of await this.readObjectBody(bucket, key)) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  protected etag(body: Buffer) {
+    return `"${createHash('md5').update(body).digest('hex')}"`;
+  }
+
+  protected checksumSHA256(body: Buffer) {
+    return createHash('sha256').update(body).digest('base64');
+  }
+
+  protected serviceException(name: string, message: string, httpStatusCode = 400) {
+    return new S3ServiceException({name, message, $fault: 'client', $metadata: {httpStatusCode}});
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private async saveObject(bucket: string, key: string, body: Buffer, options: Partial<EmulatedObject> = {}) {
+    const object: EmulatedObject = {
+      etag: this.etag(body),
+      ...options,
+      key,
+      size: body.length,
+      lastModified: new Date(),
+    };
+    await this.writeObject(bucket, object, body);
+    return object;
+  }
+
+  /** Parse a single HTTP byte range, S3 does not support multiple ranges. */
+  private parseRange(range: string, size: number) {
+    const match = range.match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (match[1] === '' && match[2] === '')) {
+      // S3 ignores a malformed Range header and returns the whole object.
+      return undefined;
+    }
+
+    let start: number;
+    let end: number;
+    if (match[1] === '') {
+      // Suffix range, e.g. 'bytes=-500' is the last 500 bytes.
+      start = Math.max(size - Number(match[2]), 0);
+      end = size - 1;
+    } else {
+      start = Number(match[1]);
+      end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+    }
+
+    if (start >= size || start > end) {
+      throw this.serviceException('InvalidRange', 'The requested range is not satisfiable', 416);
+    }
+    return {start, end};
+  }
+
+  private checkChecksum(body: Buffer, checksumSHA256?: string) {
+    if (checksumSHA256 !== undefined && checksumSHA256 !== this.checksumSHA256(body)) {
+      throw this.serviceException('BadDigest', 'The SHA256 you specified did not match the calculated checksum.');
+    }
+  }
+
+  private checkAttributes(params: {tags?: Record<string, string>; metadata?: Record<string, string>}) {
+    if (params.tags && !verifyS3Tags(params.tags)) {
+      throw this.serviceException('InvalidTag', 'The TagValue you have provided is invalid');
+    }
+    if (params.metadata && !verifyS3Metadata(params.metadata)) {
+      throw this.serviceException(
+        'MetadataTooLarge',
+        'Your metadata headers exceed the maximum allowed metadata size.'
+      );
+    }
+  }
+
+  /** S3 stores user metadata keys in lowercase, they are HTTP headers. */
+  private lowercaseKeys(metadata?: Record<string, string>) {
+    return metadata
+      ? Object.fromEntries(Object.entries(metadata).map(([key, value]) => [key.toLowerCase(), value]))
+      : undefined;
+  }
+
+  /** The only version of an object in an unversioned bucket is 'null'. HeadObject fails with a bare 404. */
+  private checkVersionId(versionId?: string, httpStatusCode = 400) {
+    if (versionId !== undefined && versionId !== 'null') {
+      throw httpStatusCode === 404
+        ? this.serviceException('NotFound', 'Not Found', 404)
+        : this.serviceException('InvalidArgument', 'Invalid version id specified', 400);
+    }
+  }
+
+  private getMultipartUpload(params: {bucket?: string; key: string; uploadId: string}) {
+    const upload = this.multipartUploads.get(params.uploadId);
+    if (!upload || upload.key !== params.key) {
+      throw new NoSuchUpload({message: 'The specified multipart upload does not exist.', $metadata: {}});
+    }
+    return upload;
+  }
+}
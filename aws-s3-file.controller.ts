@@ -1,4 +1,20 @@
-import {Get, Body, Post, Param, Patch, Query, Delete, Controller, UploadedFile, UseInterceptors} from '@nestjs/common';
+import {
+  Ip,
+  Get,
+  Res,
+  Body,
+  Post,
+  Param,
+  Patch,
+  Query,
+  Delete,
+  Headers,
+  UseGuards,
+  Controller,
+  UploadedFile,
+  StreamableFile,
+  UseInterceptors,
+} from '@nestjs/common';
 import {ApiTags, ApiResponse, ApiOperation, ApiBearerAuth} from '@nestjs/swagger';
 import {
   CreateFileRequestDto,
@@ -13,24 +29,58 @@ import {
   CreateMultipartUploadRequestDto,
   UploadPartRequestDto,
   UploadPartResponseDto,
+  ListUploadedPartsRequestDto,
+  ListUploadedPartsResponseDto,
+  GetSignedPartUploadUrlsRequestDto,
+  GetSignedPartUploadUrlsResponseDto,
   CompleteMultipartUploadRequestDto,
   AbortMultipartUploadRequestDto,
   RenameFileResponseDto,
   MoveFileRequestDto,
   GetSignedUploadUrlResponseDto,
+  SyncFilesRequestDto,
+  SyncFilesResponseDto,
+  CleanupPendingUploadsResponseDto,
+  ListTrashRequestDto,
+  ListTrashResponseDto,
+  FileVersionResponseDto,
+  UpdateFileAttributesRequestDto,
+  SearchFilesRequestDto,
+  SearchFilesResponseDto,
+  FolderTreeRequestDto,
+  FolderTreeNodeDto,
+  DownloadZipRequestDto,
+  UploadZipRequestDto,
+  UploadZipResponseDto,
+  BatchOperationRequestDto,
+  BatchOperationResponseDto,
+  CopyFileRequestDto,
+  CopyFileResponseDto,
 } from './aws-s3-file.dto';
-import {Prisma} from '@generated/prisma/client';
+import {Prisma, S3FileStatus} from '@generated/prisma/client';
+import {FileEntity, FileVariantEntity} from './aws-s3-file.entity';
 import {AwsS3FileService} from './aws-s3-file.service';
+import {AwsS3JanitorService} from './aws-s3-janitor.service';
+import {AwsS3ImageService} from './aws-s3-image.service';
+import {AwsS3AccessService, AwsS3Principal} from './aws-s3-access.service';
+import {AwsS3CdnService} from './aws-s3-cdn.service';
+import {AccessPrincipal, AwsS3AccessGuard, RequireAccess} from './aws-s3-access.guard';
 import {FileInterceptor} from '@nestjs/platform-express';
 import {PrismaService} from '@framework/prisma/prisma.service';
+import {Response} from 'express';
 
 @ApiTags('AWS / S3')
 @ApiBearerAuth()
+@UseGuards(AwsS3AccessGuard)
 @Controller('aws-s3/files')
 export class AwsS3FileController {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly s3File: AwsS3FileService
+    private readonly s3File: AwsS3FileService,
+    private readonly janitor: AwsS3JanitorService,
+    private readonly image: AwsS3ImageService,
+    private readonly access: AwsS3AccessService,
+    private readonly cdn: AwsS3CdnService
   ) {}
 
   //*******************/
@@ -38,48 +88,172 @@ export class AwsS3FileController {
   //*******************/
 
   @Get('sync')
-  @ApiOperation({summary: 'Sync files from S3 to database'})
-  async syncFiles() {
-    await this.s3File.syncFilesFromS3ToDatabase();
+  @RequireAccess({permission: 'admin'})
+  @ApiOperation({
+    summary: 'Sync files from S3 to database',
+    description: 'Reconcile the database with the S3 bucket. Use `dryRun` to get the report without applying it.',
+  })
+  @ApiResponse({type: SyncFilesResponseDto})
+  async syncFiles(@Query() query: SyncFilesRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.syncFilesFromS3ToDatabase({bucket: query.bucket, dryRun: query.dryRun, principal});
+  }
+
+  @Post('cleanup')
+  @RequireAccess({permission: 'admin'})
+  @ApiOperation({
+    summary: 'Clean up pending uploads',
+    description:
+      'Abort abandoned multipart uploads, delete the records of uploads that never completed, and purge the expired trash.',
+  })
+  @ApiResponse({type: CleanupPendingUploadsResponseDto})
+  async cleanupPendingUploads() {
+    return await this.janitor.run();
   }
 
   @Get('')
+  @RequireAccess({permission: 'read', fileId: 'query.parentId'})
   @ApiResponse({
     type: ListFilesResponseDto,
   })
-  async listFiles(@Query() query: ListFilesRequestDto) {
-    return await this.prisma.findManyInManyPages({
+  async listFiles(@Query() query: ListFilesRequestDto, @AccessPrincipal() principal: AwsS3Principal, @Ip() ip: string) {
+    // The bucket root only lists what the principal owns or was granted.
+    const where: Prisma.S3FileWhereInput = query.parentId
+      ? {parentId: query.parentId, trashedAt: null}
+      : {
+          parentId: null,
+          s3Bucket: await this.s3File.resolveBucket(query.bucket),
+          trashedAt: null,
+          ...(await this.access.getVisibleFilter(principal)),
+        };
+    if (!query.includePending) {
+      where.status = {not: S3FileStatus.pending};
+    }
+    if (query.tags) {
+      where.AND = query.tags.map(tag => {
+        const [key, ...value] = tag.split('=');
+        return {tags: {path: [key], equals: value.join('=')}};
+      });
+    }
+
+    const result = await this.prisma.findManyInManyPages({
       model: Prisma.ModelName.S3File,
       pagination: {page: query.page, pageSize: query.pageSize},
       findManyArgs: {
-        where: {parentId: query.parentId ?? null},
+        where,
         orderBy: {name: 'asc'},
       },
     });
+    return {...result, records: await this.cdn.addDownloadUrls(result.records, ip)};
+  }
+
+  @Get('search')
+  @RequireAccess({permission: 'read', fileId: 'query.rootId'})
+  @ApiOperation({
+    summary: 'Search files across the folder tree',
+    description: 'Filter by name, type, extension, size and dates, in a folder and its subfolders or in a whole bucket.',
+  })
+  @ApiResponse({type: SearchFilesResponseDto})
+  async searchFiles(
+    @Query() query: SearchFilesRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal,
+    @Ip() ip: string
+  ) {
+    // A bucket-wide search only finds what the principal owns or was granted directly.
+    const result = await this.s3File.searchFiles({...query, principal});
+    return {...result, records: await this.cdn.addDownloadUrls(result.records, ip)};
+  }
+
+  @Get('tree')
+  @RequireAccess({permission: 'read', fileId: 'query.folderId', required: true})
+  @ApiOperation({
+    summary: 'Get the folder tree under a folder',
+    description: 'Each folder carries the file count, folder count and total size of its whole subtree.',
+  })
+  @ApiResponse({type: FolderTreeNodeDto})
+  async getFolderTree(@Query() query: FolderTreeRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.getFolderTree({...query, principal});
   }
 
   @Post('folders')
+  @RequireAccess({permission: 'write', fileId: 'body.parentId', path: 'body.name', bucket: 'body.bucket'})
   @ApiOperation({
     summary: 'Create a folder in AWS S3',
     description: 'Create a folder in AWS S3',
   })
-  async createFolder(@Body() body: CreateFolderRequestDto) {
+  async createFolder(@Body() body: CreateFolderRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
     return await this.s3File.createOrGetFolder({
       path: body.name,
       parentId: body.parentId,
+      bucket: body.bucket,
+      ownerId: principal.userId,
+      principal,
     });
   }
 
   @Get(':fileId/path')
+  @RequireAccess({permission: 'read', fileId: 'param.fileId'})
   @ApiResponse({
     type: ListFilePathsResDto,
     isArray: true,
   })
-  async getFilePath(@Param('fileId') fileId: string) {
-    return await this.s3File.getFilePath(fileId);
+  async getFilePath(@Param('fileId') fileId: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.getFilePath(fileId, principal);
+  }
+
+  @Get(':fileId/content')
+  @RequireAccess({permission: 'read', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Stream the content of a file',
+    description:
+      'Supports the Range, If-None-Match and If-Modified-Since request headers. Use `versionId` for a prior version.',
+  })
+  async getFileContent(
+    @Param('fileId') fileId: string,
+    @Query('versionId') versionId: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Headers('if-none-match') ifNoneMatch: string | undefined,
+    @Headers('if-modified-since') ifModifiedSince: string | undefined,
+    @AccessPrincipal() principal: AwsS3Principal,
+    @Res({passthrough: true}) res: Response
+  ) {
+    const modifiedSince = ifModifiedSince ? new Date(ifModifiedSince) : undefined;
+    const content = await this.s3File.getFileContent({
+      fileId,
+      range,
+      ifNoneMatch,
+      ifModifiedSince: modifiedSince && !isNaN(modifiedSince.getTime()) ? modifiedSince : undefined,
+      versionId,
+      principal,
+    });
+
+    res.status(content.statusCode).set(content.headers);
+    return content.body ? new StreamableFile(content.body) : undefined;
+  }
+
+  @Get('zip')
+  @RequireAccess({permission: 'read', fileId: 'query.folderId'})
+  @ApiOperation({
+    summary: 'Download a folder or a selection of files as a ZIP archive',
+    description: 'The archive is streamed as the files are downloaded from S3, with Zip64 past 4 GB.',
+  })
+  async downloadZip(
+    @Query() query: DownloadZipRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal,
+    @Res({passthrough: true}) res: Response
+  ) {
+    const stream = await this.s3File.getZipStream({folderId: query.folderId, fileIds: query.fileIds, principal});
+    const folder = query.folderId
+      ? await this.prisma.s3File.findFirstOrThrow({where: {id: query.folderId}, select: {name: true}})
+      : undefined;
+    res.set({
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(`${folder?.name ?? 'download'}.zip`)}`,
+    });
+    return new StreamableFile(stream);
   }
 
   @Patch(':fileId/rename')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
   @ApiResponse({type: RenameFileResponseDto})
   async renameFile(@Param('fileId') fileId: string, @Body() body: RenameFileRequestDto) {
     return await this.prisma.s3File.update({
@@ -89,16 +263,199 @@ export class AwsS3FileController {
   }
 
   @Patch(':fileId/move')
-  async moveFile(@Param('fileId') fileId: string, @Body() body: MoveFileRequestDto) {
+  @RequireAccess(
+    {permission: 'write', fileId: 'param.fileId'},
+    {permission: 'write', fileId: 'body.destinationParentId'}
+  )
+  async moveFile(
+    @Param('fileId') fileId: string,
+    @Body() body: MoveFileRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
     return await this.s3File.moveFileOrFolder({
       fileId,
       destinationParentId: body.destinationParentId,
+      destinationBucket: body.destinationBucket,
+      principal,
     });
   }
 
+  @Post(':fileId/copy')
+  @RequireAccess(
+    {permission: 'read', fileId: 'param.fileId'},
+    {permission: 'write', fileId: 'body.destinationParentId'}
+  )
+  @ApiOperation({
+    summary: 'Copy a file or folder to another folder or bucket',
+    description: 'The copy is renamed if the name is taken, objects above 5 GB are copied in parts within S3.',
+  })
+  @ApiResponse({type: CopyFileResponseDto})
+  async copyFile(
+    @Param('fileId') fileId: string,
+    @Body() body: CopyFileRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.copyFileOrFolder({
+      fileId,
+      destinationParentId: body.destinationParentId,
+      destinationBucket: body.destinationBucket,
+      ownerId: principal.userId,
+      principal,
+    });
+  }
+
+  @Post('batch')
+  @RequireAccess({permission: 'write', fileId: 'body.destinationParentId'})
+  @ApiOperation({
+    summary: 'Delete, purge, move or copy many files and folders',
+    description:
+      'The files are processed `batchConcurrency` at a time, the failure of one does not stop the others. ' +
+      'The objects of purged files are deleted with DeleteObjects, 1000 keys per request.',
+  })
+  @ApiResponse({type: BatchOperationResponseDto})
+  async runBatchOperation(@Body() body: BatchOperationRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return {results: await this.s3File.runBatchOperation({...body, ownerId: principal.userId, principal})};
+  }
+
+  @Patch(':fileId/attributes')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Update the tags and metadata of a file or folder',
+    description: 'The changes are merged, and mirrored to the S3 object tagging and user metadata within their limits.',
+  })
+  @ApiResponse({type: FileEntity})
+  async updateFileAttributes(
+    @Param('fileId') fileId: string,
+    @Body() body: UpdateFileAttributesRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.updateFileAttributes({fileId, tags: body.tags, metadata: body.metadata, principal});
+  }
+
   @Delete(':id')
-  async deleteFile(@Param('id') id: string) {
-    return await this.s3File.deleteFile(id);
+  @RequireAccess({permission: 'write', fileId: 'param.id'})
+  @ApiOperation({
+    summary: 'Move a file or folder to the trash',
+    description: 'It can be restored until it is purged, after `trashRetentionDays` or manually.',
+  })
+  async deleteFile(@Param('id') id: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.deleteFile(id, principal);
+  }
+
+  //*******************/
+  //* File versions   */
+  //*******************/
+
+  @Get(':fileId/versions')
+  @RequireAccess({permission: 'read', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'List the versions of a file',
+    description: 'Only buckets created with versioning keep prior versions.',
+  })
+  @ApiResponse({type: FileVersionResponseDto, isArray: true})
+  async listFileVersions(@Param('fileId') fileId: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.listFileVersions(fileId, principal);
+  }
+
+  @Post(':fileId/versions/:versionId/restore')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Restore a prior version of a file',
+    description: 'The version is copied as a new current version, the other versions are kept.',
+  })
+  @ApiResponse({type: FileEntity})
+  async restoreFileVersion(
+    @Param('fileId') fileId: string,
+    @Param('versionId') versionId: string,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.restoreFileVersion({fileId, versionId, principal});
+  }
+
+  @Delete(':fileId/versions/:versionId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({summary: 'Delete a prior version of a file for good'})
+  async deleteFileVersion(
+    @Param('fileId') fileId: string,
+    @Param('versionId') versionId: string,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.deleteFileVersion({fileId, versionId, principal});
+  }
+
+  //*******************/
+  //* Image variants  */
+  //*******************/
+
+  @Get(':fileId/variants')
+  @RequireAccess({permission: 'read', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'List the image variants of a file',
+    description: 'Variants are generated on upload according to the `imageVariants` setting.',
+  })
+  @ApiResponse({type: FileVariantEntity, isArray: true})
+  async listVariants(@Param('fileId') fileId: string) {
+    return await this.image.listVariants(fileId);
+  }
+
+  @Post(':fileId/variants')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Generate the image variants of a file again',
+    description: 'Useful after the `imageVariants` setting has changed.',
+  })
+  @ApiResponse({type: FileVariantEntity, isArray: true})
+  async generateVariants(@Param('fileId') fileId: string) {
+    return await this.image.generateVariants({fileId});
+  }
+
+  @Get(':fileId/variants/:name/signedDownloadUrl')
+  @RequireAccess({permission: 'read', fileId: 'param.fileId'})
+  async getSignedVariantUrl(@Param('fileId') fileId: string, @Param('name') name: string, @Ip() ip: string) {
+    return await this.image.getSignedVariantUrl({fileId, name, ipAddress: ip});
+  }
+
+  //*******************/
+  //* Trash bin       */
+  //*******************/
+
+  @Get('trash')
+  @RequireAccess({permission: 'read'})
+  @ApiResponse({type: ListTrashResponseDto})
+  async listTrash(@Query() query: ListTrashRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.prisma.findManyInManyPages({
+      model: Prisma.ModelName.S3File,
+      pagination: {page: query.page, pageSize: query.pageSize},
+      findManyArgs: {
+        where: {
+          s3Bucket: await this.s3File.resolveBucket(query.bucket),
+          trashedFrom: {not: null},
+          ...(await this.access.getVisibleFilter(principal)),
+        },
+        orderBy: {trashedAt: 'desc'},
+      },
+    });
+  }
+
+  @Post('trash/:fileId/restore')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Restore a file or folder from the trash',
+    description: 'It goes back to its original folder, which is created again if needed, renamed if the name is taken.',
+  })
+  @ApiResponse({type: FileEntity})
+  async restoreFile(@Param('fileId') fileId: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.restoreFile(fileId, principal);
+  }
+
+  @Delete('trash/:fileId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Delete a file or folder in the trash for good',
+    description: 'The objects are deleted in AWS S3, then the records in the database.',
+  })
+  async purgeFile(@Param('fileId') fileId: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.purgeFile(fileId, principal);
   }
 
   //**********************/
@@ -107,19 +464,66 @@ export class AwsS3FileController {
 
   /** It would be better if the business layer reimplements this interface */
   @Post('signedUploadUrl')
+  @RequireAccess({permission: 'write', fileId: 'body.parentId', path: 'body.path', bucket: 'body.bucket'})
   @ApiResponse({type: GetSignedUploadUrlResponseDto})
-  async getSignedUploadUrl(@Body() body: CreateFileRequestDto) {
+  async getSignedUploadUrl(@Body() body: CreateFileRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
     // Specify a folder for the specific scenario
     // const folderId = await this.s3File.createOrGetFolder({
     //   path: this.s3File.getSystemFolderPath() + 'avatars' + '/' + userId,
     // });
 
-    return await this.s3File.getSignedUploadUrl(body);
+    return await this.s3File.getSignedUploadUrl({...body, ownerId: principal.userId, principal});
+  }
+
+  @Post(':fileId/confirm')
+  @RequireAccess({permission: 'write', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Confirm an upload made with a signed URL',
+    description: 'The file becomes available with the actual size, ETag and content type, or failed if not uploaded.',
+  })
+  @ApiResponse({type: FileEntity})
+  async confirmUpload(@Param('fileId') fileId: string, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.confirmUpload(fileId, principal);
   }
 
   @Get('signedDownloadUrl')
-  async getSignedDownloadUrl(@Query('fileId') fileId: string) {
-    return await this.s3File.getSignedDownloadUrl(fileId);
+  @RequireAccess({permission: 'read', fileId: 'query.fileId', required: true})
+  @ApiOperation({
+    summary: 'Get a URL to download a file',
+    description: 'A plain CDN URL for the public paths, a CloudFront or S3 signed URL otherwise.',
+  })
+  async getSignedDownloadUrl(
+    @Query('fileId') fileId: string,
+    @Query('versionId') versionId: string | undefined,
+    @Ip() ip: string,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.getSignedDownloadUrl(fileId, versionId, ip, principal);
+  }
+
+  @Get('signedCookies')
+  @RequireAccess({permission: 'read', fileId: 'query.folderId', required: true})
+  @ApiOperation({
+    summary: 'Get CloudFront signed cookies for a folder',
+    description:
+      'The cookies grant access to the CDN URLs of everything stored under the folder, until they expire. ' +
+      'They are set on the `cdnCookieDomain`, and returned for the clients setting them on their own.',
+  })
+  async getSignedCookies(
+    @Query('folderId') folderId: string,
+    @Ip() ip: string,
+    @Res({passthrough: true}) res: Response
+  ) {
+    const folder = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: folderId, type: 'folder'},
+      select: {s3Bucket: true, s3Key: true},
+    });
+    const {cookies, expiresAt, domain} = this.cdn.getSignedCookies({folder, ipAddress: ip});
+
+    for (const [name, value] of Object.entries(cookies)) {
+      res.cookie(name, value, {domain, path: '/', expires: expiresAt, httpOnly: true, secure: true, sameSite: 'none'});
+    }
+    return {cookies, expiresAt};
   }
 
   //**********************/
@@ -127,20 +531,48 @@ export class AwsS3FileController {
   //**********************/
 
   @Post('upload')
+  @RequireAccess()
   @UseInterceptors(FileInterceptor('file')) // Receive file
-  async uploadFile(@Body() body: UploadFileRequestDto, @UploadedFile() file: Express.Multer.File) {
+  async uploadFile(
+    @Body() body: UploadFileRequestDto,
+    @UploadedFile() file: Express.Multer.File,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    // The multipart body is parsed after the guard, the service checks the destination folder.
     return await this.s3File.uploadFile({
       buffer: file.buffer,
       name: file.originalname,
       type: file.mimetype,
       size: file.size,
       ...body,
+      ownerId: principal.userId,
+      principal,
     });
   }
 
+  @Post('upload-zip')
+  @RequireAccess()
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiOperation({
+    summary: 'Upload a ZIP archive and extract it into a folder',
+    description:
+      'The folders of the archive are recreated under `parentId` or `path`, and its files uploaded. ' +
+      'The archive is rejected if it exceeds the `zipMaxEntries` or `zipMaxUncompressedSize` settings.',
+  })
+  @ApiResponse({type: UploadZipResponseDto})
+  async uploadZipFile(
+    @Body() body: UploadZipRequestDto,
+    @UploadedFile() file: Express.Multer.File,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    // The multipart body is parsed after the guard, the service checks the destination folder.
+    return await this.s3File.extractZipFile({buffer: file.buffer, ...body, ownerId: principal.userId, principal});
+  }
+
   @Post('upload-base64')
-  async uploadBase64String(@Body() body: UploadBase64RequestDto) {
-    return await this.s3File.uploadBase64String(body);
+  @RequireAccess({permission: 'write', fileId: 'body.parentId', path: 'body.path', bucket: 'body.bucket'})
+  async uploadBase64String(@Body() body: UploadBase64RequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.uploadBase64String({...body, ownerId: principal.userId, principal});
   }
 
   //*******************************/
@@ -148,26 +580,76 @@ export class AwsS3FileController {
   //*******************************/
 
   @Post('create-multipart')
+  @RequireAccess({permission: 'write', fileId: 'body.parentId', path: 'body.path', bucket: 'body.bucket'})
   @ApiResponse({type: CreateMultipartUploadResponseDto})
-  async createMultipartUpload(@Body() body: CreateMultipartUploadRequestDto) {
-    return await this.s3File.createMultipartUpload(body);
+  async createMultipartUpload(
+    @Body() body: CreateMultipartUploadRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.createMultipartUpload({...body, ownerId: principal.userId, principal});
   }
 
   @Post('upload-part')
+  @RequireAccess()
   @ApiResponse({type: UploadPartResponseDto})
   @UseInterceptors(FileInterceptor('chunk', {limits: {fileSize: 6 * 1024 * 1024}}))
-  async uploadPart(@Body() body: UploadPartRequestDto, @UploadedFile() chunk: Express.Multer.File) {
-    return await this.s3File.uploadPart({body: chunk.buffer, ...body});
+  async uploadPart(
+    @Body() body: UploadPartRequestDto,
+    @UploadedFile() chunk: Express.Multer.File,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    // The multipart body is parsed after the guard, the service checks the file of the upload.
+    return await this.s3File.uploadPart({
+      body: chunk.buffer,
+      uploadId: body.uploadId,
+      partNumber: body.partNumber,
+      checksumSHA256: body.checksumSHA256,
+      principal,
+    });
+  }
+
+  @Get('list-parts')
+  @RequireAccess({permission: 'write', uploadId: 'query.uploadId'})
+  @ApiOperation({
+    summary: 'List the uploaded parts of a multipart upload',
+    description: 'Use it to resume an interrupted upload.',
+  })
+  @ApiResponse({type: ListUploadedPartsResponseDto})
+  async listUploadedParts(@Query() query: ListUploadedPartsRequestDto, @AccessPrincipal() principal: AwsS3Principal) {
+    return await this.s3File.listUploadedParts(query.uploadId, principal);
+  }
+
+  @Post('signed-part-urls')
+  @RequireAccess({permission: 'write', uploadId: 'body.uploadId'})
+  @ApiOperation({
+    summary: 'Get signed URLs to upload parts directly to AWS S3',
+    description:
+      'Upload each part with a PUT request to its URL, then call complete-multipart with the ETag response headers.',
+  })
+  @ApiResponse({type: GetSignedPartUploadUrlsResponseDto})
+  async getSignedPartUploadUrls(
+    @Body() body: GetSignedPartUploadUrlsRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.getSignedPartUploadUrls({...body, principal});
   }
 
   @Post('complete-multipart')
-  async completeMultipartUpload(@Body() body: CompleteMultipartUploadRequestDto) {
-    return await this.s3File.completeMultipartUpload(body);
+  @RequireAccess({permission: 'write', uploadId: 'body.uploadId'})
+  async completeMultipartUpload(
+    @Body() body: CompleteMultipartUploadRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.completeMultipartUpload({...body, principal});
   }
 
   @Post('abort-multipart')
-  async abortMultipartUpload(@Body() body: AbortMultipartUploadRequestDto) {
-    return await this.s3File.abortMultipartUpload(body.uploadId);
+  @RequireAccess({permission: 'write', uploadId: 'body.uploadId'})
+  async abortMultipartUpload(
+    @Body() body: AbortMultipartUploadRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.s3File.abortMultipartUpload(body.uploadId, principal);
   }
 
   /* End */
@@ -1,9 +1,175 @@
 import {ApiProperty} from '@nestjs/swagger';
-import {IsArray, IsNumber, IsString, MinLength, IsOptional} from 'class-validator';
-import {Type} from 'class-transformer';
+import {
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  IsNumber,
+  IsString,
+  MinLength,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  Min,
+  Max,
+  IsIn,
+  IsObject,
+  Matches,
+  IsDate,
+} from 'class-validator';
+import {Transform, Type} from 'class-transformer';
 import {CommonListRequestDto, CommonListResponseDto} from '@framework/common.dto';
+import {S3FileStatus} from '@generated/prisma/client';
 import {FileEntity} from './aws-s3-file.entity';
 
+/** Multipart form fields are strings, JSON objects are sent stringified. */
+function parseJsonObject({value}: {value: unknown}) {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export class SyncFilesRequestDto {
+  @ApiProperty({
+    type: Boolean,
+    required: false,
+    description: 'Default to false. If true, only report the differences between S3 and the database.',
+  })
+  @IsOptional()
+  @Transform(({value}) => value === true || value === 'true')
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to reconcile, defaults to the configured bucket.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+}
+
+class SyncFileItem {
+  @ApiProperty({type: String})
+  s3Key: string;
+}
+
+class SyncAddedFileItem extends SyncFileItem {
+  @ApiProperty({type: String})
+  type: string;
+
+  @ApiProperty({type: Number, required: false})
+  size?: number;
+}
+
+class SyncExistingFileItem extends SyncFileItem {
+  @ApiProperty({type: String})
+  id: string;
+}
+
+class SyncResizedFileItem extends SyncExistingFileItem {
+  @ApiProperty({type: Number, nullable: true})
+  oldSize: number | null;
+
+  @ApiProperty({type: Number})
+  newSize: number;
+}
+
+class SyncRelinkedFileItem extends SyncExistingFileItem {
+  @ApiProperty({type: String, nullable: true, description: 'The s3Key of the new parent folder.'})
+  parentS3Key: string | null;
+}
+
+export class SyncFilesResponseDto {
+  @ApiProperty({type: String})
+  bucket: string;
+
+  @ApiProperty({type: Boolean})
+  dryRun: boolean;
+
+  @ApiProperty({type: [SyncAddedFileItem], description: 'Objects (and implied folders) added to the database.'})
+  added: SyncAddedFileItem[];
+
+  @ApiProperty({type: [SyncExistingFileItem], description: 'Records flagged because their objects are gone.'})
+  missing: SyncExistingFileItem[];
+
+  @ApiProperty({type: [SyncExistingFileItem], description: 'Flagged records whose objects are back.'})
+  reappeared: SyncExistingFileItem[];
+
+  @ApiProperty({type: [SyncResizedFileItem]})
+  resized: SyncResizedFileItem[];
+
+  @ApiProperty({type: [SyncRelinkedFileItem]})
+  relinked: SyncRelinkedFileItem[];
+}
+
+class CleanupAbortedUploadItem {
+  @ApiProperty({type: String})
+  bucket: string;
+
+  @ApiProperty({type: String})
+  s3Key: string;
+
+  @ApiProperty({type: String})
+  uploadId: string;
+
+  @ApiProperty({type: String})
+  initiated: string;
+}
+
+class CleanupFileItem {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String})
+  s3Bucket: string;
+
+  @ApiProperty({type: String})
+  s3Key: string;
+}
+
+class CleanupDeletedFileItem extends CleanupFileItem {
+  @ApiProperty({
+    type: String,
+    enum: ['multipart', 'signed-upload'],
+    description: 'An abandoned multipart upload, or a signed upload that never happened.',
+  })
+  reason: string;
+}
+
+class CleanupPurgedFileItem extends CleanupFileItem {
+  @ApiProperty({type: String})
+  trashedAt: string;
+}
+
+export class CleanupPendingUploadsResponseDto {
+  @ApiProperty({type: String, description: 'Pending uploads created before this time were cleaned up.'})
+  cutoff: string;
+
+  @ApiProperty({type: [CleanupAbortedUploadItem]})
+  abortedUploads: CleanupAbortedUploadItem[];
+
+  @ApiProperty({type: [CleanupDeletedFileItem]})
+  deletedFiles: CleanupDeletedFileItem[];
+
+  @ApiProperty({
+    type: [CleanupFileItem],
+    description: 'Signed uploads which happened but were never confirmed.',
+  })
+  confirmedFiles: CleanupFileItem[];
+
+  @ApiProperty({
+    type: [CleanupPurgedFileItem],
+    description: 'Files deleted for good after `trashRetentionDays` in the trash.',
+  })
+  purgedFiles: CleanupPurgedFileItem[];
+}
+
 export class GetSignedUploadUrlResponseDto {
   @ApiProperty({type: String})
   fileId: string;
@@ -39,9 +205,22 @@ export class CreateFileResponseDto {
 
   @ApiProperty({type: Number})
   uploadProgress: number;
+
+  @ApiProperty({enum: S3FileStatus})
+  status: S3FileStatus;
 }
 
 export class ListFilesRequestDto extends CommonListRequestDto {
+  @ApiProperty({
+    type: Boolean,
+    required: false,
+    description: 'Default to false, files whose upload is not confirmed yet are hidden.',
+  })
+  @IsOptional()
+  @Transform(({value}) => value === true || value === 'true')
+  @IsBoolean()
+  includePending?: boolean;
+
   @ApiProperty({
     type: String,
     required: false,
@@ -50,6 +229,26 @@ export class ListFilesRequestDto extends CommonListRequestDto {
   @IsOptional()
   @IsString()
   parentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to list root files in, defaults to the configured bucket. Ignored if `parentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    description: "Only list the files having all these tags, each one as 'key=value'.",
+  })
+  @IsOptional()
+  @Transform(({value}) => (Array.isArray(value) ? value : [value]))
+  @IsString({each: true})
+  @Matches(/^[^=]+=/, {each: true})
+  tags?: string[];
 }
 
 export class ListFilesResponseDto extends CommonListResponseDto {
@@ -61,6 +260,201 @@ export class ListFilesResponseDto extends CommonListResponseDto {
   declare records: FileEntity[];
 }
 
+export class SearchFilesRequestDto extends CommonListRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: "A case-insensitive substring of the name, or a glob if it contains '*' or '?', e.g. 'report-??.pdf'.",
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  name?: string;
+
+  @ApiProperty({type: String, required: false, description: "The MIME type, e.g. 'application/pdf' or 'image/*'."})
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiProperty({type: String, required: false, description: "The file extension, e.g. 'pdf'."})
+  @IsOptional()
+  @IsString()
+  extension?: string;
+
+  @ApiProperty({type: Number, required: false, description: 'The minimum size in bytes.'})
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  minSize?: number;
+
+  @ApiProperty({type: Number, required: false, description: 'The maximum size in bytes.'})
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  maxSize?: number;
+
+  @ApiProperty({type: String, required: false})
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdAfter?: Date;
+
+  @ApiProperty({type: String, required: false})
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  createdBefore?: Date;
+
+  @ApiProperty({type: String, required: false})
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  updatedAfter?: Date;
+
+  @ApiProperty({type: String, required: false})
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  updatedBefore?: Date;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The folder to search in, including its subfolders. If not provided, searches the whole bucket.',
+  })
+  @IsOptional()
+  @IsString()
+  rootId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to search in, defaults to the configured bucket. Ignored if `rootId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
+  @ApiProperty({
+    type: Boolean,
+    required: false,
+    description: 'Default to false, files whose upload is not confirmed yet are hidden.',
+  })
+  @IsOptional()
+  @Transform(({value}) => value === true || value === 'true')
+  @IsBoolean()
+  includePending?: boolean;
+
+  @ApiProperty({type: String, enum: ['name', 'size', 'createdAt', 'updatedAt'], required: false})
+  @IsOptional()
+  @IsIn(['name', 'size', 'createdAt', 'updatedAt'])
+  sortBy?: 'name' | 'size' | 'createdAt' | 'updatedAt';
+
+  @ApiProperty({type: String, enum: ['asc', 'desc'], required: false})
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc';
+}
+
+export class SearchFilesResponseDto extends CommonListResponseDto {
+  @ApiProperty({
+    type: FileEntity,
+    isArray: true,
+    description: 'The files and folders matching all the criteria.',
+  })
+  declare records: FileEntity[];
+}
+
+export class FolderTreeRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The folder at the top of the tree, if not provided, the root of the bucket.',
+  })
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket of the tree, defaults to the configured bucket. Ignored if `folderId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
+  @ApiProperty({type: Number, required: false, description: 'Default to 1, the levels of subfolders returned.'})
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(20)
+  depth?: number;
+}
+
+export class FolderTreeNodeDto {
+  @ApiProperty({type: String, nullable: true, description: 'null for the root of a bucket.'})
+  id: string | null;
+
+  @ApiProperty({type: String, description: 'The name of the folder, or of the bucket for its root.'})
+  name: string;
+
+  @ApiProperty({type: Number, description: 'The files in the whole subtree.'})
+  fileCount: number;
+
+  @ApiProperty({type: Number, description: 'The folders in the whole subtree.'})
+  folderCount: number;
+
+  @ApiProperty({type: Number, description: 'The size of the files in the whole subtree, in bytes.'})
+  totalSize: number;
+
+  @ApiProperty({
+    type: () => [FolderTreeNodeDto],
+    description: 'The subfolders sorted by name, empty below the requested depth.',
+  })
+  children: FolderTreeNodeDto[];
+}
+
+export class DownloadZipRequestDto {
+  @ApiProperty({type: String, required: false, description: 'The folder to archive, its content is at the top.'})
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    description: 'Or the files and folders to archive, ignored if `folderId` is provided.',
+  })
+  @IsOptional()
+  @Transform(({value}) => (Array.isArray(value) ? value : [value]))
+  @IsString({each: true})
+  fileIds?: string[];
+}
+
+export class ListTrashRequestDto extends CommonListRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to list trashed files in, defaults to the configured bucket.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+}
+
+export class ListTrashResponseDto extends CommonListResponseDto {
+  @ApiProperty({
+    type: FileEntity,
+    isArray: true,
+    description: 'The files moved to the trash, without the files in the trashed folders.',
+  })
+  declare records: FileEntity[];
+}
+
 export class CreateFolderRequestDto {
   @ApiProperty({
     type: String,
@@ -79,6 +473,15 @@ export class CreateFolderRequestDto {
   @IsOptional()
   @IsString()
   parentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to create the folder in, defaults to the configured bucket. Ignored if `parentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
 }
 
 export class CreateFileRequestDto {
@@ -117,6 +520,45 @@ export class CreateFileRequestDto {
   @IsOptional()
   @IsString()
   path?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to upload the file to, defaults to the configured bucket. Ignored if `parentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description:
+      'The SHA-256 of the content in base64. The signed URL then requires it in the x-amz-checksum-sha256 header.',
+  })
+  @IsOptional()
+  @IsString()
+  checksumSHA256?: string;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: "Key/value strings, e.g. {\"project\": \"apollo\"}. Mirrored to S3 object tagging within its limits.",
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  tags?: Record<string, string>;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: 'Free-form JSON object. Mirrored to S3 user metadata if it is flat ASCII strings within 2 KB.',
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  metadata?: Record<string, any>;
 }
 
 export class RenameFileRequestDto {
@@ -136,6 +578,103 @@ export class MoveFileRequestDto {
   @IsOptional()
   @IsString()
   destinationParentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The destination bucket, defaults to the bucket of the file. Ignored if `destinationParentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  destinationBucket?: string;
+}
+
+export class CopyFileRequestDto extends MoveFileRequestDto {}
+
+export class CopyFileResponseDto {
+  @ApiProperty({type: String, description: 'The ID of the copy.'})
+  id: string;
+
+  @ApiProperty({type: String, description: 'The name of the copy, renamed if the name is taken in the destination.'})
+  name: string;
+}
+
+export class BatchOperationRequestDto {
+  @ApiProperty({
+    type: String,
+    enum: ['delete', 'purge', 'move', 'copy'],
+    description: "'delete' moves to the trash, 'purge' deletes files in the trash for good.",
+  })
+  @IsIn(['delete', 'purge', 'move', 'copy'])
+  operation: 'delete' | 'purge' | 'move' | 'copy';
+
+  @ApiProperty({type: [String], description: 'The files and folders, up to 1000.'})
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @IsString({each: true})
+  fileIds: string[];
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: "For 'move' and 'copy', the destination folder ID. If not provided, the root folder.",
+  })
+  @IsOptional()
+  @IsString()
+  destinationParentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: "For 'move' and 'copy', the destination bucket. Ignored if `destinationParentId` is provided.",
+  })
+  @IsOptional()
+  @IsString()
+  destinationBucket?: string;
+}
+
+class BatchOperationResultItem {
+  @ApiProperty({type: String})
+  fileId: string;
+
+  @ApiProperty({type: Boolean})
+  success: boolean;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The new file or folder of a move or a copy, moved files get a new ID.',
+  })
+  destinationFileId?: string;
+
+  @ApiProperty({type: String, required: false})
+  error?: string;
+}
+
+export class BatchOperationResponseDto {
+  @ApiProperty({type: [BatchOperationResultItem], description: 'One result per file, in the order of the request.'})
+  results: BatchOperationResultItem[];
+}
+
+export class UpdateFileAttributesRequestDto {
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: 'The tags to set, a tag set to null is removed. The other tags are kept.',
+  })
+  @IsOptional()
+  @IsObject()
+  tags?: Record<string, string | null>;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: 'The metadata keys to set, a key set to null is removed. The other keys are kept.',
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
 }
 
 export class ListFilePathsResDto {
@@ -163,6 +702,29 @@ export class ListFilePathsResDto {
   parentId: string;
 }
 
+export class FileVersionResponseDto {
+  @ApiProperty({type: String, description: "'null' for the version of an object uploaded before versioning."})
+  versionId: string;
+
+  @ApiProperty({type: Boolean, description: 'True for the version recorded in the database.'})
+  isCurrent: boolean;
+
+  @ApiProperty({type: Boolean, description: 'True for the latest version in S3.'})
+  isLatest: boolean;
+
+  @ApiProperty({type: Boolean, description: 'A delete marker has no content and cannot be restored.'})
+  isDeleteMarker: boolean;
+
+  @ApiProperty({type: Number, nullable: true})
+  size: number | null;
+
+  @ApiProperty({type: String, nullable: true})
+  etag: string | null;
+
+  @ApiProperty({type: String})
+  lastModified: string;
+}
+
 //***************/
 //* Upload DTOs */
 //***************/
@@ -186,15 +748,45 @@ export class UploadFileRequestDto {
   @IsString()
   path?: string;
 
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to upload the file to, defaults to the configured bucket. Ignored if `parentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
   @ApiProperty({
     type: Boolean,
     required: false,
     description: `1. This option will only take effect when 'name' is provided.
      2. Default to false, do not overwrite the existing file.
-     3. If overwrite is true, the existing file with the same name in the same folder will be overwritten.`,
+     3. If overwrite is true, the existing file with the same name in the same folder will be overwritten.
+     4. An overwritten file keeps its tags and metadata, unless new ones are provided.`,
   })
   @IsOptional()
   overwrite?: boolean;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: "Key/value strings, e.g. {\"project\": \"apollo\"}. Mirrored to S3 object tagging within its limits.",
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  tags?: Record<string, string>;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: 'Free-form JSON object. Mirrored to S3 user metadata if it is flat ASCII strings within 2 KB.',
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  metadata?: Record<string, any>;
 }
 
 export class UploadBase64RequestDto {
@@ -216,6 +808,15 @@ export class UploadBase64RequestDto {
   @IsString()
   path?: string;
 
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to upload the file to, defaults to the configured bucket. Ignored if `parentId` is provided.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+
   @ApiProperty({
     type: String,
     required: true,
@@ -238,12 +839,98 @@ export class UploadBase64RequestDto {
     required: false,
     description: `1. This option will only take effect when 'name' is provided.
      2. Default to false, do not overwrite the existing file.
-     3. If overwrite is true, the existing file with the same name in the same folder will be overwritten.`,
+     3. If overwrite is true, the existing file with the same name in the same folder will be overwritten.
+     4. An overwritten file keeps its tags and metadata, unless new ones are provided.`,
+  })
+  @IsOptional()
+  overwrite?: boolean;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: "Key/value strings, e.g. {\"project\": \"apollo\"}. Mirrored to S3 object tagging within its limits.",
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  tags?: Record<string, string>;
+
+  @ApiProperty({
+    type: Object,
+    required: false,
+    description: 'Free-form JSON object. Mirrored to S3 user metadata if it is flat ASCII strings within 2 KB.',
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class UploadZipRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The folder to extract the archive into, do not use both `parentId` and `path` at the same time.',
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'Or the path of the folder to extract the archive into, it is created if needed.',
+  })
+  @IsOptional()
+  @IsString()
+  path?: string;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket to extract the archive into, defaults to the configured bucket. Ignored if `parentId` is provided.',
   })
   @IsOptional()
+  @IsString()
+  bucket?: string;
+
+  @ApiProperty({
+    type: Boolean,
+    required: false,
+    description: 'Overwrite the existing files with the same path, defaults to false: the extracted files are renamed.',
+  })
+  @IsOptional()
+  @Transform(parseJsonObject)
+  @IsBoolean()
   overwrite?: boolean;
 }
 
+class ZipEntryResultItem {
+  @ApiProperty({type: String, description: 'The path of the entry in the archive.'})
+  name: string;
+
+  @ApiProperty({
+    type: String,
+    enum: ['extracted', 'skipped', 'failed'],
+    description: 'Entries pointing outside of the target folder and macOS metadata are skipped.',
+  })
+  status: string;
+
+  @ApiProperty({type: String, required: false, description: 'The extracted file or folder.'})
+  fileId?: string;
+
+  @ApiProperty({type: String, required: false, description: 'Why the entry was skipped or failed.'})
+  reason?: string;
+}
+
+export class UploadZipResponseDto {
+  @ApiProperty({type: String, nullable: true, description: 'The folder the archive was extracted into.'})
+  parentId: string | null;
+
+  @ApiProperty({type: [ZipEntryResultItem], description: 'One result per entry, in the order of the archive.'})
+  entries: ZipEntryResultItem[];
+}
+
 //*************************/
 //* Multipart upload DTOs */
 //*************************/
@@ -256,9 +943,24 @@ class UploadPartInfo {
   @IsNumber()
   @Type(() => Number)
   PartNumber: number;
+
+  @ApiProperty({type: String, required: false, description: 'Defaults to the checksum listed by S3.'})
+  @IsOptional()
+  @IsString()
+  ChecksumSHA256?: string;
 }
 
-export class CreateMultipartUploadRequestDto extends CreateFileRequestDto {}
+export class CreateMultipartUploadRequestDto extends CreateFileRequestDto {
+  @ApiProperty({
+    type: String,
+    enum: ['SHA256'],
+    required: false,
+    description: 'Every part must then be uploaded with its checksum, and the object checksum is verified on completion.',
+  })
+  @IsOptional()
+  @IsIn(['SHA256'])
+  checksumAlgorithm?: 'SHA256';
+}
 
 export class CreateMultipartUploadResponseDto extends CreateFileResponseDto {}
 
@@ -267,15 +969,30 @@ export class UploadPartRequestDto {
   @IsString()
   uploadId: string;
 
-  @ApiProperty({type: Number, required: true})
+  @ApiProperty({
+    type: Number,
+    required: false,
+    deprecated: true,
+    description: 'Ignored, the progress is computed from the bytes received.',
+  })
+  @IsOptional()
   @IsNumber()
   @Type(() => Number)
-  uploadProgress: number;
+  uploadProgress?: number;
 
   @ApiProperty({type: Number, required: true})
   @IsNumber()
   @Type(() => Number)
   partNumber: number;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The SHA-256 of the part in base64, computed if not provided. Only for uploads with a checksum algorithm.',
+  })
+  @IsOptional()
+  @IsString()
+  checksumSHA256?: string;
 }
 
 export class UploadPartResponseDto {
@@ -284,6 +1001,52 @@ export class UploadPartResponseDto {
 
   @ApiProperty({type: Number})
   PartNumber: number;
+
+  @ApiProperty({type: String, required: false})
+  ChecksumSHA256?: string;
+
+  @ApiProperty({type: Number})
+  uploadProgress: number;
+}
+
+export class ListUploadedPartsRequestDto {
+  @ApiProperty({type: String, required: true})
+  @IsString()
+  uploadId: string;
+}
+
+class UploadedPartInfo {
+  @ApiProperty({type: Number})
+  partNumber: number;
+
+  @ApiProperty({type: String})
+  etag: string;
+
+  @ApiProperty({type: Number})
+  size: number;
+
+  @ApiProperty({type: String, required: false})
+  checksumSHA256?: string;
+}
+
+export class ListUploadedPartsResponseDto {
+  @ApiProperty({type: String})
+  fileId: string;
+
+  @ApiProperty({type: String})
+  uploadId: string;
+
+  @ApiProperty({type: Number, nullable: true})
+  size: number | null;
+
+  @ApiProperty({type: Number})
+  receivedBytes: number;
+
+  @ApiProperty({type: Number})
+  uploadProgress: number;
+
+  @ApiProperty({type: [UploadedPartInfo]})
+  parts: UploadedPartInfo[];
 }
 
 export class CompleteMultipartUploadRequestDto {
@@ -293,10 +1056,68 @@ export class CompleteMultipartUploadRequestDto {
 
   @ApiProperty({
     type: [UploadPartInfo],
+    required: false,
+    description: 'If not provided, all the uploaded parts are assembled.',
+  })
+  @IsOptional()
+  @IsArray()
+  parts?: UploadPartInfo[];
+}
+
+export class GetSignedPartUploadUrlsRequestDto {
+  @ApiProperty({type: String, required: true})
+  @IsString()
+  uploadId: string;
+
+  @ApiProperty({type: Number, required: true, minimum: 1, maximum: 10000})
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  startPartNumber: number;
+
+  @ApiProperty({
+    type: Number,
     required: true,
+    minimum: 1,
+    maximum: 10000,
+    description: 'Inclusive. At most 1000 part URLs can be requested at a time.',
   })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  endPartNumber: number;
+
+  @ApiProperty({
+    type: [String],
+    required: false,
+    description:
+      'The SHA-256 of each part in base64, from `startPartNumber` to `endPartNumber`. Required for uploads with a checksum algorithm.',
+  })
+  @IsOptional()
   @IsArray()
-  parts: UploadPartInfo[];
+  @IsString({each: true})
+  checksumsSHA256?: string[];
+}
+
+class SignedPartUploadUrl {
+  @ApiProperty({type: Number})
+  partNumber: number;
+
+  @ApiProperty({type: String})
+  signedUploadUrl: string;
+}
+
+export class GetSignedPartUploadUrlsResponseDto {
+  @ApiProperty({type: String})
+  fileId: string;
+
+  @ApiProperty({type: String})
+  uploadId: string;
+
+  @ApiProperty({type: [SignedPartUploadUrl]})
+  parts: SignedPartUploadUrl[];
 }
 
 export class AbortMultipartUploadRequestDto {
@@ -1,4 +1,5 @@
 import {ApiProperty} from '@nestjs/swagger';
+import {S3FileStatus} from '@generated/prisma/client';
 
 export class FileEntity {
   @ApiProperty({type: String})
@@ -28,6 +29,104 @@ export class FileEntity {
   @ApiProperty({type: String})
   parentId: string | null;
 
+  @ApiProperty({
+    type: Boolean,
+    description: 'True if the S3 reconciliation found the object gone from the bucket.',
+  })
+  s3Missing: boolean;
+
+  @ApiProperty({enum: S3FileStatus})
+  status: S3FileStatus;
+
+  @ApiProperty({type: String, nullable: true})
+  etag: string | null;
+
+  @ApiProperty({type: String, nullable: true})
+  trashedAt: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: "The original folder path of a file moved to the trash, '' for the root.",
+  })
+  trashedFrom: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'The current version of the object in a versioned bucket.',
+  })
+  versionId: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'The SHA-256 of the content in hex, null for files not uploaded through the server.',
+  })
+  contentHash: string | null;
+
+  @ApiProperty({type: String, nullable: true, description: "'SHA256' if S3 verified the upload with a checksum."})
+  checksumAlgorithm: string | null;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: "The S3 checksum in base64, followed by '-' and the part count for multipart objects.",
+  })
+  checksumSHA256: string | null;
+
+  @ApiProperty({type: Object, nullable: true, description: 'Key/value strings.'})
+  tags: Record<string, string> | null;
+
+  @ApiProperty({type: Object, nullable: true})
+  metadata: Record<string, any> | null;
+
+  @ApiProperty({type: String, nullable: true, description: 'The user who created the file, they can manage it.'})
+  ownerId: string | null;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    nullable: true,
+    description: 'In listings, the URL to download the file from the CDN or S3. null for folders and pending uploads.',
+  })
+  url?: string | null;
+
+  @ApiProperty({type: String})
+  createdAt: string;
+
+  @ApiProperty({type: String})
+  updatedAt: string;
+}
+
+export class FileVariantEntity {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String, description: 'The ID of the original file.'})
+  fileId: string;
+
+  @ApiProperty({type: String, description: 'The name of the variant in the `imageVariants` setting.'})
+  name: string;
+
+  @ApiProperty({type: String})
+  s3Bucket: string;
+
+  @ApiProperty({type: String})
+  s3Key: string;
+
+  @ApiProperty({type: String})
+  type: string;
+
+  @ApiProperty({type: Number})
+  width: number;
+
+  @ApiProperty({type: Number})
+  height: number;
+
+  @ApiProperty({type: Number, description: 'The size of the variant in bytes.'})
+  size: number;
+
   @ApiProperty({type: String})
   createdAt: string;
 
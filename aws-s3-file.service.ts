@@ -1,112 +1,290 @@
-import {Injectable} from '@nestjs/common';
+import {Inject, Injectable} from '@nestjs/common';
 import {ConfigService} from '@nestjs/config';
 import {PrismaService} from '@framework/prisma/prisma.service';
 import {generateRandomString, generateUuid} from '@framework/utilities/random.util';
-import {S3File} from '@generated/prisma/client';
+import {Prisma, S3File, S3FilePermissionLevel, S3FileStatus} from '@generated/prisma/client';
+import {S3ServiceException} from '@aws-sdk/client-s3';
+import {createHash} from 'crypto';
+import {lookup} from 'mime-types';
 import {extname} from 'path';
-import {AwsS3Service} from './aws-s3.service';
+import {Readable} from 'stream';
+import {setTimeout as sleep} from 'timers/promises';
+import {AWS_S3_STORAGE_DRIVER, AwsS3ChecksumAlgorithm, AwsS3StorageDriver} from './aws-s3.driver';
+import {AwsS3ImageService, VARIANT_FOLDER_PATH} from './aws-s3-image.service';
+import {AwsS3QuotaService} from './aws-s3-quota.service';
+import {AwsS3AccessService, AwsS3Principal} from './aws-s3-access.service';
+import {AwsS3ShareService} from './aws-s3-share.service';
+import {AwsS3CdnService} from './aws-s3-cdn.service';
+import {verifyS3Metadata, verifyS3Tags} from './aws-s3.validator';
+import {createZipStream, getSafeZipPath, readZipEntries, ZipEntry} from './aws-s3.zip';
 
 const SYSTEM_FOLDER_PATH = '_system/';
+const DEDUP_FOLDER_PATH = SYSTEM_FOLDER_PATH + 'blobs/'; // Deduplicated objects are stored by content hash.
+const MIN_PART_SIZE = 5 * 1024 * 1024; // S3 rejects smaller parts, except the last one.
+const MAX_PART_COUNT = 10000;
+const MAX_SIGNED_PART_URLS = 1000; // The maximum number of signed part URLs per request.
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024; // CopyObject cannot copy larger objects.
+const COPY_PART_SIZE = 512 * 1024 * 1024; // Parts are copied within S3, larger parts take fewer requests.
+const OBJECT_LOCK_TIMEOUT = 60 * 1000; // S3 requests are made while an object lock is held.
+const SEARCH_SORT_COLUMNS = {
+  name: Prisma.raw('name'),
+  size: Prisma.raw('size'),
+  createdAt: Prisma.raw('"createdAt"'),
+  updatedAt: Prisma.raw('"updatedAt"'),
+};
+
+/**
+ * An operation of runBatchOperation:
+ * - 'delete' moves to the trash, like deleteFile,
+ * - 'purge' deletes trashed files for good, like purgeFile,
+ * - 'move' and 'copy' go to the destination folder, or to the root of the destination bucket.
+ */
+export type AwsS3BatchOperation = 'delete' | 'purge' | 'move' | 'copy';
+
+/** A folder of getFolderTree, the counts and the size are totals of its whole subtree. */
+interface FolderTreeNode {
+  id: string | null; // null for the root of a bucket.
+  name: string;
+  fileCount: number;
+  folderCount: number;
+  totalSize: number;
+  children: FolderTreeNode[];
+}
 
+/**
+ * Files and folders, recorded in the s3File table and stored in the buckets.
+ * The methods check the permissions of the principal passed to them, see AwsS3AccessService. Without one, the
+ * application itself calls them with full access.
+ */
 @Injectable()
 export class AwsS3FileService {
   private bucket: string;
   private region: string;
-  private cdnHostname: string | undefined;
+  private multipartThreshold: number;
+  private multipartPartSize: number;
+  private multipartQueueSize: number;
+  private multipartRetries: number;
+  private dedup: boolean;
+  private zipMaxEntries: number;
+  private zipMaxUncompressedSize: number;
+  private batchConcurrency: number;
 
   constructor(
     private readonly config: ConfigService,
     private readonly prisma: PrismaService,
-    private readonly s3: AwsS3Service
+    @Inject(AWS_S3_STORAGE_DRIVER) private readonly s3: AwsS3StorageDriver,
+    private readonly image: AwsS3ImageService,
+    private readonly quota: AwsS3QuotaService,
+    private readonly access: AwsS3AccessService,
+    private readonly share: AwsS3ShareService,
+    private readonly cdn: AwsS3CdnService
   ) {
     this.bucket = this.config.getOrThrow<string>('microservices.aws-s3.bucket');
     this.region = this.config.getOrThrow<string>('microservices.aws-s3.region');
-    this.cdnHostname = this.config.get<string>('microservices.aws-s3.cdnHostname');
+    this.multipartThreshold = this.config.getOrThrow<number>('microservices.aws-s3.multipartThreshold');
+    this.multipartPartSize = this.config.getOrThrow<number>('microservices.aws-s3.multipartPartSize');
+    this.multipartQueueSize = this.config.getOrThrow<number>('microservices.aws-s3.multipartQueueSize');
+    this.multipartRetries = this.config.getOrThrow<number>('microservices.aws-s3.multipartRetries');
+    this.dedup = this.config.getOrThrow<boolean>('microservices.aws-s3.dedup');
+    this.zipMaxEntries = this.config.getOrThrow<number>('microservices.aws-s3.zipMaxEntries');
+    this.zipMaxUncompressedSize = this.config.getOrThrow<number>('microservices.aws-s3.zipMaxUncompressedSize');
+    this.batchConcurrency = this.config.getOrThrow<number>('microservices.aws-s3.batchConcurrency');
   }
 
   getSystemFolderPath() {
     return SYSTEM_FOLDER_PATH;
   }
 
+  /** Return the bucket to work in. Only the configured bucket and the buckets registered in S3Bucket are allowed. */
+  async resolveBucket(bucket?: string) {
+    if (!bucket || bucket === this.bucket) {
+      return this.bucket;
+    }
+
+    const count = await this.prisma.s3Bucket.count({where: {name: bucket}});
+    if (count === 0) {
+      throw new Error(`The bucket '${bucket}' is not registered.`);
+    }
+    return bucket;
+  }
+
   //*******************/
   //* File operations */
   //*******************/
 
-  async syncFilesFromS3ToDatabase() {
-    // [step 1] Check if the s3File table is empty.
-    const count = await this.prisma.s3File.count();
-    if (count > 0) {
-      throw new Error('The s3File table is not empty. Please clear the table before syncing.');
-    }
-
-    // [step 2] Get all objects from S3 bucket.
-    const objects = await this.s3.getObjectsRecursively({});
+  /**
+   * Reconcile the s3File table with the objects in the S3 bucket. It can be run again at any time.
+   * - Objects missing from the database are added, along with the folders implied by their keys.
+   * - Rows whose objects are gone are flagged with `s3Missing`, and unflagged if the objects come back.
+   * - Sizes that changed in S3 are updated.
+   * - parentId links that do not match the s3Key are repaired.
+   * Deduplicated objects and image variants are left out, their keys have nothing to do with the folders.
+   * With `dryRun`, the report is returned without changing the database.
+   */
+  async syncFilesFromS3ToDatabase(params: {bucket?: string; dryRun?: boolean; principal?: AwsS3Principal} = {}) {
+    await this.checkAccess(params.principal, null, 'manage');
+    const bucket = await this.resolveBucket(params.bucket);
+
+    // [step 1] Get all objects from S3 bucket and all records of the bucket.
+    const objects = await this.s3.getObjectsRecursively({bucket});
+    const rows = await this.prisma.s3File.findMany({
+      where: {s3Bucket: bucket},
+      select: {
+        id: true,
+        type: true,
+        size: true,
+        s3Key: true,
+        parentId: true,
+        status: true,
+        uploadProgress: true,
+        s3Missing: true,
+      },
+    });
+    const rowsByKey = new Map(rows.map(row => [row.s3Key, row]));
+    const objectsByKey = new Map(objects.map(object => [object.s3Key, object]));
+
+    // [step 2] Find objects missing from the database, including folders only implied by the keys.
+    const added: {s3Key: string; name: string; type: string; size?: number}[] = [];
+    const addedKeys = new Set<string>();
+    const impliedFolderKeys = new Set<string>();
+    const addRecord = (s3Key: string, size?: number) => {
+      if (rowsByKey.has(s3Key) || addedKeys.has(s3Key)) {
+        return;
+      }
 
-    // [step 3] Create records in the s3File table.
-    const createManyInputs: {
-      name: string;
-      type: string;
-      size?: number;
-      s3Bucket: string;
-      s3Key: string;
-    }[] = [];
+      let name: string;
+      let type: string;
+      if (s3Key.endsWith('/')) {
+        name = s3Key.slice(0, -1).split('/').pop() || '';
+        type = 'folder';
+      } else {
+        name = s3Key.split('/').pop() || '';
+        type = extname(name).slice(1);
+      }
 
+      addedKeys.add(s3Key);
+      added.push({s3Key, name, type, size});
+    };
     for (const {s3Key, size} of objects) {
-      const fileSize = size;
-      let fileName = '';
-      let fileType = '';
+      if (s3Key.startsWith(DEDUP_FOLDER_PATH) || s3Key.startsWith(VARIANT_FOLDER_PATH)) {
+        continue;
+      }
+      for (let parentKey = this.getParentS3Key(s3Key); parentKey; parentKey = this.getParentS3Key(parentKey)) {
+        impliedFolderKeys.add(parentKey);
+        addRecord(parentKey);
+      }
+      addRecord(s3Key, size);
+    }
 
-      if (s3Key.endsWith('/')) {
-        fileName = s3Key.slice(0, -1).split('/').pop() || '';
-        fileType = 'folder';
-      } else {
-        fileName = s3Key.split('/').pop() || '';
-        fileType = s3Key.split('.').pop() || '';
+    // [step 3] Find rows whose objects are gone or came back, and sizes that changed.
+    const missing: {id: string; s3Key: string}[] = [];
+    const reappeared: {id: string; s3Key: string}[] = [];
+    const resized: {id: string; s3Key: string; oldSize: number | null; newSize: number}[] = [];
+    for (const row of rows) {
+      const object = objectsByKey.get(row.s3Key);
+
+      if (!object) {
+        // Folders implied by other keys and uploads in progress have no object.
+        const isUploading =
+          row.status === S3FileStatus.pending || (row.uploadProgress !== null && row.uploadProgress < 100);
+        if (!row.s3Missing && !impliedFolderKeys.has(row.s3Key) && !isUploading) {
+          missing.push({id: row.id, s3Key: row.s3Key});
+        }
+        continue;
       }
 
-      createManyInputs.push({
-        name: fileName,
-        type: fileType,
-        size: fileSize,
-        s3Bucket: this.bucket,
-        s3Key: s3Key,
-      });
+      if (row.s3Missing) {
+        reappeared.push({id: row.id, s3Key: row.s3Key});
+      }
+      if (row.type !== 'folder' && object.size !== undefined && object.size !== row.size) {
+        resized.push({id: row.id, s3Key: row.s3Key, oldSize: row.size, newSize: object.size});
+      }
+    }
+
+    // [step 4] Find parentId links that do not match the s3Key.
+    const keysById = new Map(rows.map(row => [row.id, row.s3Key]));
+    const relinked: {id: string; s3Key: string; parentS3Key: string | null}[] = [];
+    for (const row of rows) {
+      if (row.s3Key.startsWith(DEDUP_FOLDER_PATH)) {
+        continue;
+      }
+      const parentKey = this.getParentS3Key(row.s3Key);
+      const expectedParentKey = parentKey && (rowsByKey.has(parentKey) || addedKeys.has(parentKey)) ? parentKey : null;
+      // A parentId pointing to no record never equals a key, so it gets repaired.
+      const currentParentKey = row.parentId ? (keysById.get(row.parentId) ?? row.parentId) : null;
+      if (currentParentKey !== expectedParentKey) {
+        relinked.push({id: row.id, s3Key: row.s3Key, parentS3Key: expectedParentKey});
+      }
+    }
+
+    const report = {
+      bucket,
+      dryRun: params.dryRun ?? false,
+      added: added.map(({s3Key, type, size}) => ({s3Key, type, size})),
+      missing,
+      reappeared,
+      resized,
+      relinked,
+    };
+    if (params.dryRun) {
+      return report;
     }
 
-    const files = await this.prisma.s3File.createManyAndReturn({
-      data: createManyInputs,
+    // [step 5] Apply the changes.
+    const createdFiles = await this.prisma.s3File.createManyAndReturn({
+      data: added.map(({s3Key, name, type, size}) => ({name, type, size, s3Bucket: bucket, s3Key})),
       select: {id: true, s3Key: true},
     });
+    if (missing.length > 0) {
+      await this.prisma.s3File.updateMany({
+        where: {id: {in: missing.map(({id}) => id)}},
+        data: {s3Missing: true},
+      });
+    }
+    if (reappeared.length > 0) {
+      await this.prisma.s3File.updateMany({
+        where: {id: {in: reappeared.map(({id}) => id)}},
+        data: {s3Missing: false},
+      });
+    }
+    for (const {id, newSize} of resized) {
+      await this.prisma.s3File.update({where: {id}, data: {size: newSize}});
+    }
 
-    // [step 4] Link parent-child relationships.
-    const fileMap = new Map(files.map(file => [file.s3Key, file.id]));
-
-    for (const {id, s3Key} of files) {
-      let parts: string[];
-      if (s3Key.endsWith('/')) {
-        parts = s3Key.slice(0, -1).split('/');
-      } else {
-        parts = s3Key.split('/');
-      }
-      if (parts.length > 1) {
-        const parentKey = parts.slice(0, -1).join('/') + '/';
-        const parentId = fileMap.get(parentKey);
-        if (parentId) {
-          await this.prisma.s3File.update({
-            where: {id: id},
-            data: {parentId: parentId},
-          });
-        }
+    // Link the new records and repair the broken links, grouped by parent.
+    const idsByKey = new Map([...rows, ...createdFiles].map(file => [file.s3Key, file.id]));
+    const childrenByParentKey = new Map<string | null, string[]>();
+    const link = (id: string, parentKey: string | null) => {
+      childrenByParentKey.set(parentKey, [...(childrenByParentKey.get(parentKey) ?? []), id]);
+    };
+    relinked.forEach(({id, parentS3Key}) => link(id, parentS3Key));
+    createdFiles.forEach(({id, s3Key}) => {
+      const parentKey = this.getParentS3Key(s3Key);
+      if (parentKey) {
+        link(id, parentKey);
       }
+    });
+    for (const [parentKey, ids] of childrenByParentKey) {
+      await this.prisma.s3File.updateMany({
+        where: {id: {in: ids}},
+        data: {parentId: parentKey ? idsByKey.get(parentKey) : null},
+      });
     }
+
+    return report;
   }
 
   /** Create a folder in AWS S3, then create a record in the database. */
   async createOrGetFolder(params: {
     path: string; // The folder path, e.g. 'uploads', 'uploads/images'.
     parentId?: string; // The parent folder ID, if not provided, the folder will be created in the root directory.
+    bucket?: string; // The bucket to create the folder in, ignored if `parentId` is provided.
+    ownerId?: string; // The owner of the folders created, the existing ones keep theirs.
+    principal?: AwsS3Principal;
   }) {
+    await this.checkFolderAccess(params.principal, params);
     let parentId = params.parentId;
+    const bucket = await this.resolveTargetBucket({bucket: params.bucket, parentId});
 
     // Remove leading and trailing slashes from path
     params.path = params.path.replace(/^\/+|\/+$/g, '');
@@ -122,29 +300,33 @@ export class AwsS3FileService {
         where: {
           name: folderNames[i],
           type: 'folder',
-          parentId: parentId,
+          s3Bucket: bucket,
+          parentId: parentId ?? null,
+          trashedAt: null,
         },
       });
 
       if (existingFolder) {
         parentId = existingFolder.id;
       } else {
-        let s3Key: string;
-        if (parentId) {
-          s3Key = (await this.getFilePathString(parentId)) + '/' + folderNames[i] + '/';
-        } else {
-          s3Key = folderNames[i] + '/';
-        }
+        // No folder has this name, but a trashed one may still use the s3Key.
+        const {s3Key} = await this.generateAvailableName({
+          bucket,
+          parentId: parentId ?? null,
+          name: folderNames[i],
+          isFolder: true,
+        });
 
-        const output = await this.s3.putObject({key: s3Key});
+        const output = await this.s3.putObject({bucket, key: s3Key});
         const folder = await this.prisma.s3File.create({
           data: {
             name: folderNames[i],
             type: 'folder',
-            s3Bucket: this.bucket,
+            s3Bucket: bucket,
             s3Key: s3Key,
             s3Response: output as object,
             parentId: parentId,
+            ownerId: params.ownerId,
           },
         });
 
@@ -162,31 +344,48 @@ export class AwsS3FileService {
     size?: number; // The file size in bytes.
     parentId?: string; // Do not use both `parentId` and `path` at the same time.
     path?: string; // The folder path to upload the file, e.g. "uploads", not including "/" at the end.
+    bucket?: string; // The bucket to upload the file to, ignored if `parentId` is provided.
     overwrite?: boolean; // Whether to overwrite the existing file
+    tags?: Record<string, string>; // Key/value tags, mirrored to S3 object tagging.
+    metadata?: Prisma.InputJsonObject; // Free-form metadata, mirrored to S3 user metadata if it is flat strings.
+    ownerId?: string; // The user uploading the file, an overwritten file keeps its owner.
+    principal?: AwsS3Principal;
   }) {
     // Validate parameters
     if (params.path && params.parentId) {
       throw new Error('Do not use both `parentId` and `path` at the same time.');
     }
+    this.checkTags(params.tags);
+    await this.checkFolderAccess(params.principal, params);
 
     // Create or get the parent folder if path is provided.
     if (params.path) {
       params.parentId = await this.createOrGetFolder({
         path: params.path,
+        bucket: params.bucket,
+        ownerId: params.ownerId,
       });
     }
+    const bucket = await this.resolveTargetBucket({bucket: params.bucket, parentId: params.parentId});
 
     // [step 1] Check if a file with the same name exists in the same folder.
-    let existingFile: {id: string; s3Key: string} | null = null;
+    let existingFile: {
+      id: string;
+      s3Key: string;
+      size: number | null;
+      tags: Prisma.JsonValue;
+      metadata: Prisma.JsonValue;
+    } | null = null;
     let origionalName: string;
     if (params.name) {
       existingFile = await this.prisma.s3File.findFirst({
         where: {
           name: params.name,
-          s3Bucket: this.bucket,
-          parentId: params.parentId,
+          s3Bucket: bucket,
+          parentId: params.parentId ?? null,
+          trashedAt: null,
         },
-        select: {id: true, s3Key: true},
+        select: {id: true, s3Key: true, size: true, tags: true, metadata: true},
       });
       origionalName = params.name;
     } else {
@@ -196,72 +395,129 @@ export class AwsS3FileService {
     // [step 2]  Generate s3Key and name based on whether the file exists and the overwrite option.
     let name: string;
     let s3Key: string;
-    if (existingFile) {
-      if (params.overwrite) {
-        name = origionalName;
-        s3Key = existingFile.s3Key;
-      } else {
-        const ext = extname(origionalName);
-        const randomStr = await generateRandomString(6);
+    if (existingFile && params.overwrite) {
+      name = origionalName;
+      // A deduplicated object is shared with other files, it must not be overwritten.
+      s3Key = existingFile.s3Key.startsWith(DEDUP_FOLDER_PATH)
+        ? await this.generateS3Key({name, parentId: params.parentId})
+        : existingFile.s3Key;
+    } else {
+      ({name, s3Key} = await this.generateAvailableName({
+        bucket,
+        parentId: params.parentId ?? null,
+        name: origionalName,
+      }));
+    }
 
-        name = ext === '' ? origionalName + randomStr : origionalName.slice(0, -ext.length) + randomStr + ext;
+    // [step 3] Prepare the upload to S3, in parts if the file is larger than the multipart threshold.
+    // In dedup mode, the object is stored under its content hash and only uploaded if the bucket does not have it yet.
+    // An overwritten file keeps its tags and metadata, unless new ones are provided.
+    const contentHash = createHash('sha256').update(params.buffer).digest('hex');
+    const tags = params.tags ?? (params.overwrite ? existingFile?.tags : undefined) ?? undefined;
+    const metadata = params.metadata ?? (params.overwrite ? existingFile?.metadata : undefined) ?? undefined;
+    if (this.dedup) {
+      s3Key = DEDUP_FOLDER_PATH + contentHash;
+    }
+    const putObject = async () => {
+      const attributes = this.getObjectAttributes({s3Key, tags, metadata});
+      return params.buffer.length > this.multipartThreshold
+        ? await this.putObjectInParts({
+            bucket,
+            key: s3Key,
+            body: params.buffer,
+            contentType: params.type,
+            ...attributes,
+          })
+        : await this.s3.putObject({
+            bucket,
+            key: s3Key,
+            body: params.buffer,
+            contentType: params.type,
+            checksumSHA256: Buffer.from(contentHash, 'hex').toString('base64'),
+            ...attributes,
+          });
+    };
 
-        if (params.parentId) {
-          s3Key = (await this.getFilePathString(params.parentId)) + `/${name}`;
-        } else {
-          s3Key = name;
-        }
-      }
-    } else {
-      if (params.parentId) {
-        name = origionalName;
-        s3Key = (await this.getFilePathString(params.parentId)) + `/${name}`;
+    // [step 4] Check the quotas, then upload the object and create or update a record in the database.
+    // An overwritten file only adds the difference in size. The quotas stay locked until the record is written.
+    const file: {id: string; name: string} = await this.quota.withQuotaLock(params.parentId, async tx => {
+      await this.quota.checkQuota({
+        parentId: params.parentId,
+        bytes: params.buffer.length - (existingFile && params.overwrite ? (existingFile.size ?? 0) : 0),
+        files: existingFile && params.overwrite ? 0 : 1,
+      });
+      const output = (this.dedup ? await this.headObjectIfExists(bucket, s3Key) : undefined) ?? (await putObject());
+
+      if (existingFile && params.overwrite) {
+        return await tx.s3File.update({
+          where: {id: existingFile.id},
+          data: {
+            type: params.type,
+            size: params.size,
+            s3Key: s3Key,
+            etag: output.ETag,
+            versionId: output.VersionId,
+            contentHash,
+            checksumSHA256: output.ChecksumSHA256,
+            tags: params.tags,
+            metadata: params.metadata,
+            s3Response: output as object,
+          },
+          select: {id: true, name: true},
+        });
       } else {
-        name = origionalName;
-        s3Key = name;
+        return await tx.s3File.create({
+          data: {
+            name: name,
+            type: params.type,
+            size: params.size,
+            s3Bucket: bucket,
+            s3Key: s3Key,
+            etag: output.ETag,
+            versionId: output.VersionId,
+            contentHash,
+            checksumSHA256: output.ChecksumSHA256,
+            tags: params.tags,
+            metadata: params.metadata,
+            s3Response: output as object,
+            parentId: params.parentId,
+            ownerId: params.ownerId,
+          },
+          select: {id: true, name: true},
+        });
       }
-    }
-
-    // [step 3] Upload file to S3.
-    const output = await this.s3.putObject({
-      key: s3Key,
-      body: params.buffer,
     });
 
-    // [step 4] Create or update a record in the database.
-    if (existingFile && params.overwrite) {
-      return await this.prisma.s3File.update({
-        where: {id: existingFile.id},
-        data: {
-          type: params.type,
-          size: params.size,
-          s3Response: output as object,
-        },
-        select: {id: true, name: true},
-      });
-    } else {
-      return await this.prisma.s3File.create({
-        data: {
-          name: name,
-          type: params.type,
-          size: params.size,
-          s3Bucket: this.bucket,
-          s3Key: s3Key,
-          s3Response: output as object,
-          parentId: params.parentId,
-        },
-        select: {id: true, name: true},
-      });
+    // [step 5] In dedup mode, the overwritten file now references another object.
+    if (existingFile && params.overwrite && existingFile.s3Key !== s3Key) {
+      const [error] = await this.deleteObjectsIfUnreferenced({objects: [{bucket, key: existingFile.s3Key}]});
+      if (error) {
+        throw new Error(error.message);
+      }
     }
+
+    // [step 6] The deduplicated object may have been deleted with the last file referencing it in the meantime.
+    if (this.dedup) {
+      await this.ensureDeduplicatedObject({fileId: file.id, bucket, key: s3Key, store: putObject});
+    }
+
+    // [step 7] Generate the image variants.
+    await this.image.tryGenerateVariants({fileId: file.id, buffer: params.buffer});
+    return file;
   }
 
   /** Upload a base64 string as a file to AWS S3. */
   async uploadBase64String(params: {
     parentId?: string;
     path?: string;
+    bucket?: string;
     base64: string;
     name?: string;
     overwrite?: boolean;
+    tags?: Record<string, string>;
+    metadata?: Prisma.InputJsonObject;
+    ownerId?: string;
+    principal?: AwsS3Principal;
   }) {
     const {base64, ...others} = params;
 
@@ -281,8 +537,102 @@ export class AwsS3FileService {
     });
   }
 
+  /**
+   * Extract a ZIP archive into a folder, its folders are recreated with createOrGetFolder and its files uploaded.
+   * The archive is rejected as a whole if it exceeds `zipMaxEntries` or `zipMaxUncompressedSize`. The entries are then
+   * extracted one at a time, in the order of the archive, and the failure of one does not stop the others.
+   */
+  async extractZipFile(params: {
+    buffer: Buffer; // The ZIP archive.
+    parentId?: string; // Do not use both `parentId` and `path` at the same time.
+    path?: string; // The folder path to extract the archive into, e.g. "uploads".
+    bucket?: string; // The bucket to extract the archive into, ignored if `parentId` is provided.
+    overwrite?: boolean; // Whether to overwrite the existing files, the extracted files are renamed otherwise.
+    ownerId?: string; // The user uploading the archive.
+    principal?: AwsS3Principal;
+  }) {
+    if (params.path && params.parentId) {
+      throw new Error('Do not use both `parentId` and `path` at the same time.');
+    }
+    await this.checkFolderAccess(params.principal, params);
+
+    // [step 1] Check the limits with the sizes announced by the archive, the content cannot exceed them.
+    const entries = readZipEntries(params.buffer);
+    if (entries.length > this.zipMaxEntries) {
+      throw new Error(`The archive has ${entries.length} entries, the limit is ${this.zipMaxEntries}.`);
+    }
+    const totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+    if (totalSize > this.zipMaxUncompressedSize) {
+      throw new Error(`The archive is ${totalSize} bytes uncompressed, the limit is ${this.zipMaxUncompressedSize}.`);
+    }
+
+    // [step 2] Check the target folder before extracting anything. The folders of the archive are created on the way,
+    // and remembered by path.
+    const parentId = params.path
+      ? await this.createOrGetFolder({path: params.path, bucket: params.bucket, ownerId: params.ownerId})
+      : params.parentId;
+    await this.resolveTargetBucket({bucket: params.bucket, parentId});
+    const folderIds = new Map<string, string | undefined>([['', parentId]]);
+    const getFolderId = async (path: string) => {
+      if (!folderIds.has(path)) {
+        folderIds.set(
+          path,
+          await this.createOrGetFolder({path, parentId, bucket: params.bucket, ownerId: params.ownerId})
+        );
+      }
+      return folderIds.get(path);
+    };
+
+    // [step 3] Extract the entries.
+    const results: {name: string; status: 'extracted' | 'skipped' | 'failed'; fileId?: string; reason?: string}[] = [];
+    for (const entry of entries) {
+      const path = getSafeZipPath(entry.name);
+      if (!path) {
+        results.push({name: entry.name, status: 'skipped', reason: 'The path points outside of the target folder.'});
+        continue;
+      }
+      if (path.split('/')[0] === '__MACOSX') {
+        results.push({name: entry.name, status: 'skipped', reason: 'macOS metadata.'});
+        continue;
+      }
+
+      try {
+        if (entry.isFolder) {
+          results.push({name: entry.name, status: 'extracted', fileId: await getFolderId(path)});
+          continue;
+        }
+
+        const folderPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        const name = path.slice(folderPath ? folderPath.length + 1 : 0);
+        const chunks: Buffer[] = [];
+        for await (const chunk of entry.open()) {
+          chunks.push(chunk);
+        }
+        const buffer = Buffer.concat(chunks);
+
+        const file = await this.uploadFile({
+          buffer,
+          name,
+          type: lookup(name) || 'application/octet-stream',
+          size: buffer.length,
+          parentId: await getFolderId(folderPath),
+          bucket: params.bucket,
+          overwrite: params.overwrite,
+          ownerId: params.ownerId,
+        });
+        results.push({name: entry.name, status: 'extracted', fileId: file.id});
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        results.push({name: entry.name, status: 'failed', reason});
+      }
+    }
+
+    return {parentId: parentId ?? null, entries: results};
+  }
+
   // Get object from AWS S3 by file ID.
-  async getFileObject(fileId: string) {
+  async getFileObject(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'read');
     const file = await this.prisma.s3File.findFirstOrThrow({
       where: {id: fileId},
       select: {s3Bucket: true, s3Key: true},
@@ -294,8 +644,8 @@ export class AwsS3FileService {
     });
   }
 
-  async getFileBuffer(fileId: string) {
-    const object = await this.getFileObject(fileId);
+  async getFileBuffer(fileId: string, principal?: AwsS3Principal) {
+    const object = await this.getFileObject(fileId, principal);
     if (!object.Body) {
       throw new Error('File not found');
     }
@@ -303,8 +653,110 @@ export class AwsS3FileService {
     return Buffer.from((await object.Body.transformToByteArray()).buffer);
   }
 
+  /**
+   * Stream a file from AWS S3 without buffering it, for HTTP responses.
+   * Range, If-None-Match and If-Modified-Since are passed to S3, so the returned status can be 200, 206, 304 or 416.
+   */
+  async getFileContent(params: {
+    fileId: string;
+    range?: string;
+    ifNoneMatch?: string;
+    ifModifiedSince?: Date;
+    versionId?: string; // Defaults to the current version.
+    principal?: AwsS3Principal;
+  }) {
+    await this.checkAccess(params.principal, params.fileId, 'read');
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: params.fileId},
+      select: {name: true, type: true, size: true, s3Bucket: true, s3Key: true},
+    });
+    if (file.type === 'folder') {
+      throw new Error('A folder has no content.');
+    }
+
+    try {
+      const object = await this.s3.getObject({
+        bucket: file.s3Bucket,
+        key: file.s3Key,
+        range: params.range,
+        ifNoneMatch: params.ifNoneMatch,
+        ifModifiedSince: params.ifModifiedSince,
+        versionId: params.versionId,
+      });
+
+      // Objects uploaded without a content type get S3's default, the record may know better.
+      let contentType = object.ContentType ?? 'binary/octet-stream';
+      if (contentType === 'binary/octet-stream' && file.type?.includes('/')) {
+        contentType = file.type;
+      }
+
+      const headers: Record<string, string> = {
+        'Accept-Ranges': 'bytes',
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+      };
+      if (object.ContentLength !== undefined) {
+        headers['Content-Length'] = String(object.ContentLength);
+      }
+      if (object.ContentRange) {
+        headers['Content-Range'] = object.ContentRange;
+      }
+      if (object.ETag) {
+        headers['ETag'] = object.ETag;
+      }
+      if (object.LastModified) {
+        headers['Last-Modified'] = object.LastModified.toUTCString();
+      }
+
+      return {statusCode: object.ContentRange ? 206 : 200, headers, body: object.Body as Readable};
+    } catch (error) {
+      const statusCode = error instanceof S3ServiceException ? error.$metadata.httpStatusCode : undefined;
+      if (statusCode === 304) {
+        return {statusCode, headers: {} as Record<string, string>, body: undefined};
+      } else if (statusCode === 416) {
+        return {statusCode, headers: {'Content-Range': `bytes */${file.size ?? '*'}`}, body: undefined};
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stream a ZIP archive of a folder, or of a selection of files and folders, keeping their relative paths.
+   * The objects are downloaded one at a time as the archive is streamed.
+   * Trashed files and unfinished uploads are left out.
+   */
+  async getZipStream(params: {folderId?: string; fileIds?: string[]; principal?: AwsS3Principal}) {
+    for (const fileId of params.folderId ? [params.folderId] : (params.fileIds ?? [])) {
+      await this.checkAccess(params.principal, fileId, 'read');
+    }
+    const select = {id: true, name: true, type: true, s3Bucket: true, s3Key: true, updatedAt: true};
+    let files: {id: string; name: string; type: string | null; s3Bucket: string; s3Key: string; updatedAt: Date}[];
+    if (params.folderId) {
+      await this.prisma.s3File.findFirstOrThrow({
+        where: {id: params.folderId, type: 'folder', trashedAt: null},
+        select: {id: true},
+      });
+      files = await this.prisma.s3File.findMany({
+        where: {parentId: params.folderId, trashedAt: null, status: S3FileStatus.available},
+        select,
+        orderBy: {name: 'asc'},
+      });
+    } else if (params.fileIds && params.fileIds.length > 0) {
+      files = await this.prisma.s3File.findMany({
+        where: {id: {in: params.fileIds}, trashedAt: null, status: S3FileStatus.available},
+        select,
+        orderBy: {name: 'asc'},
+      });
+    } else {
+      throw new Error('Provide a folder or a selection of files to archive.');
+    }
+
+    return createZipStream(this.walkZipEntries(files, ''));
+  }
+
   // Get the file path.
-  async getFilePath(fileId: string) {
+  async getFilePath(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'read');
     const path: object[] = [];
 
     // [step 1] Get current file.
@@ -324,143 +776,836 @@ export class AwsS3FileService {
     return path;
   }
 
+  /**
+   * Move a file or folder, renamed if the name is taken in the destination folder.
+   * The file or folder is copied with the prior versions of its objects, then deleted, so that the keys of the objects
+   * keep following the folders.
+   */
   async moveFileOrFolder(params: {
     fileId: string; // The file or folder ID to be moved.
     destinationParentId?: string; // The destination folder ID, if not provided, the file will be moved to the root directory.
+    destinationBucket?: string; // The destination bucket, ignored if `destinationParentId` is provided.
+    reservedNames?: Set<string>; // The names taken in the destination folder by the other files of a batch.
+    principal?: AwsS3Principal;
   }) {
+    await this.checkAccess(params.principal, params.fileId, 'write');
+    await this.checkAccess(params.principal, params.destinationParentId, 'write');
+
     // [step 1] Get the file or folder to be moved.
     const originalFile = await this.prisma.s3File.findFirstOrThrow({
-      where: {id: params.fileId},
+      where: {id: params.fileId, trashedAt: null},
     });
+    await this.quota.checkMove({file: originalFile, destinationParentId: params.destinationParentId});
 
     // [step 2] Copy the file or folder.
+    let newFile: {id: string; name: string};
     if (originalFile.type === 'folder') {
-      await this.copyFolder({
+      newFile = await this.copyFolder({
         folder: originalFile,
         destinationParentId: params.destinationParentId,
+        destinationBucket: params.destinationBucket,
+        move: true,
+        reservedNames: params.reservedNames,
       });
     } else {
-      await this.copySingleFile({
+      newFile = await this.copySingleFile({
         file: originalFile,
         destinationParentId: params.destinationParentId,
+        destinationBucket: params.destinationBucket,
+        move: true,
+        reservedNames: params.reservedNames,
       });
     }
 
-    // [step 3] Delete the original folder in S3 recursively.
-    await this.s3.deleteObjectRecursively({
-      bucket: originalFile.s3Bucket,
-      key: originalFile.s3Key,
-    });
-
-    // [step 4] Delete the original folder record in the database recursively.
-    await this.deleteFileRecursively(originalFile.id);
+    // [step 3] Delete the original file or folder in S3 and in the database.
+    await this.deleteFileAndObjects(originalFile.id);
+    return newFile;
   }
 
-  // Delete a file in AWS S3, then delete the record in the database.
-  async deleteFile(fileId: string) {
-    const file = await this.prisma.s3File.findFirstOrThrow({
-      where: {id: fileId},
+  /**
+   * Copy a file or folder, with everything under it, to another folder or bucket. The original is kept.
+   * The copies keep the tags, metadata, image variants and permissions, and are renamed if the name is taken.
+   * Objects above 5 GB are copied in parts with UploadPartCopy.
+   * The trashed files and the pending and failed uploads are left behind.
+   * If the copy fails, the copies already made are deleted.
+   */
+  async copyFileOrFolder(params: {
+    fileId: string; // The file or folder ID to be copied.
+    destinationParentId?: string; // The destination folder ID, if not provided, the file will be copied to the root directory.
+    destinationBucket?: string; // The destination bucket, ignored if `destinationParentId` is provided.
+    ownerId?: string; // The user copying the file, who owns the copies. Defaults to the owners of the originals.
+    reservedNames?: Set<string>; // The names taken in the destination folder by the other files of a batch.
+    principal?: AwsS3Principal;
+  }) {
+    await this.checkAccess(params.principal, params.fileId, 'read');
+    await this.checkAccess(params.principal, params.destinationParentId, 'write');
+
+    // [step 1] Get the file or folder to be copied.
+    const originalFile = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: params.fileId, trashedAt: null},
     });
+    await this.quota.checkCopy({file: originalFile, destinationParentId: params.destinationParentId});
 
+    // [step 2] Copy the file or folder, the copies already made are deleted if it fails.
+    const createdFileIds: string[] = [];
     try {
-      await this.s3.deleteObjectRecursively({
-        bucket: file.s3Bucket,
-        key: file.s3Key,
-      });
-      await this.deleteFileRecursively(fileId);
+      if (originalFile.type === 'folder') {
+        return await this.copyFolder({
+          folder: originalFile,
+          destinationParentId: params.destinationParentId,
+          destinationBucket: params.destinationBucket,
+          ownerId: params.ownerId,
+          reservedNames: params.reservedNames,
+          createdFileIds,
+        });
+      } else {
+        return await this.copySingleFile({
+          file: originalFile,
+          destinationParentId: params.destinationParentId,
+          destinationBucket: params.destinationBucket,
+          ownerId: params.ownerId,
+          reservedNames: params.reservedNames,
+          createdFileIds,
+        });
+      }
     } catch (error) {
-      // TODO (developer) - Handle exception
+      // The copies whose objects could not be deleted are kept, the error of the copy is the one to report.
+      await this.deleteFilesAndObjects(createdFileIds).catch(() => undefined);
       throw error;
     }
   }
 
-  //*******************************/
-  //* Multipart upload operations */
-  //*******************************/
+  /**
+   * The folders under a folder, or under the root of a bucket for admins, down to `depth` levels.
+   * Each folder carries the totals of its whole subtree, whatever the depth.
+   * The subtree is walked and aggregated by a single recursive query, which returns the folders down to `depth` only.
+   */
+  async getFolderTree(params: {folderId?: string; bucket?: string; depth?: number; principal?: AwsS3Principal}) {
+    await this.checkAccess(params.principal, params.folderId, params.folderId ? 'read' : 'manage');
+    const depth = params.depth ?? 1;
+
+    // [step 1] Get the root and the condition on its children.
+    let root: {id: string | null; name: string};
+    let rootChildren: Prisma.Sql;
+    if (params.folderId) {
+      root = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: params.folderId, type: 'folder', trashedAt: null},
+        select: {id: true, name: true},
+      });
+      rootChildren = Prisma.sql`"parentId" = ${params.folderId}::uuid`;
+    } else {
+      const bucket = await this.resolveBucket(params.bucket);
+      root = {id: null, name: bucket};
+      rootChildren = Prisma.sql`"parentId" IS NULL AND "s3Bucket" = ${bucket}`;
+    }
 
-  async createMultipartUpload(params: {name: string; type: string; size: number; parentId?: string; path?: string}) {
-    // [step 1] Generate s3Key.
-    const s3Key = await this.generateS3Key({
-      name: params.name,
-      parentId: params.parentId,
-      path: params.path,
-    });
+    // [step 2] Aggregate the subtree of the root and of each folder down to `depth`, the root being the row without id.
+    // Every row carries the IDs of the folders above it in the subtree, and its own.
+    const rows = await this.prisma.$queryRaw<
+      {
+        id: string | null;
+        name: string;
+        parentId: string | null;
+        fileCount: bigint;
+        folderCount: bigint;
+        totalSize: bigint;
+      }[]
+    >`
+      WITH RECURSIVE tree AS (
+        SELECT id, name, type, size, "parentId", 1 AS level, ARRAY[id] AS ancestors
+        FROM "microservice/aws-s3"."S3File"
+        WHERE ${rootChildren} AND "trashedAt" IS NULL AND status = 'available'
+        UNION ALL
+        SELECT child.id, child.name, child.type, child.size, child."parentId", tree.level + 1, tree.ancestors || child.id
+        FROM "microservice/aws-s3"."S3File" child
+        JOIN tree ON child."parentId" = tree.id AND tree.type = 'folder'
+        WHERE child."trashedAt" IS NULL AND child.status = 'available'
+      )
+      SELECT NULL AS id, '' AS name, NULL AS "parentId",
+        COUNT(*) FILTER (WHERE type IS DISTINCT FROM 'folder') AS "fileCount",
+        COUNT(*) FILTER (WHERE type = 'folder') AS "folderCount",
+        COALESCE(SUM(size) FILTER (WHERE type IS DISTINCT FROM 'folder'), 0) AS "totalSize"
+      FROM tree
+      UNION ALL
+      SELECT folder.id, folder.name, CASE WHEN folder.level = 1 THEN NULL ELSE folder."parentId" END,
+        COUNT(*) FILTER (WHERE item.type IS DISTINCT FROM 'folder'),
+        COUNT(*) FILTER (WHERE item.type = 'folder' AND item.id <> folder.id),
+        COALESCE(SUM(item.size) FILTER (WHERE item.type IS DISTINCT FROM 'folder'), 0)
+      FROM tree folder
+      JOIN tree item ON folder.id = ANY(item.ancestors)
+      WHERE folder.type = 'folder' AND folder.level <= ${depth}
+      GROUP BY folder.id, folder.name, folder.level, folder."parentId"
+    `;
+
+    // [step 3] Link the folders to their parents, the root being the parent of the first level.
+    const nodes = new Map<string | null, FolderTreeNode>();
+    for (const row of rows) {
+      nodes.set(row.id, {
+        id: row.id ?? root.id,
+        name: row.id ? row.name : root.name,
+        fileCount: Number(row.fileCount), // BigInt is not serializable.
+        folderCount: Number(row.folderCount),
+        totalSize: Number(row.totalSize),
+        children: [],
+      });
+    }
+    for (const row of rows) {
+      if (row.id) {
+        nodes.get(row.parentId)?.children.push(nodes.get(row.id)!);
+      }
+    }
+    for (const node of nodes.values()) {
+      node.children.sort((a, b) => a.name.localeCompare(b.name));
+    }
 
-    // [step 2] Create a record and initiate multipart upload.
-    const uploadRsp = await this.s3.createMultipartUpload({
-      key: s3Key,
-      bucket: this.bucket,
-    });
+    return nodes.get(null)!;
+  }
 
-    // [step 3] Create a record.
-    return await this.prisma.s3File.create({
-      data: {
-        name: params.name,
-        type: params.type,
-        size: params.size,
-        s3Bucket: this.bucket,
-        s3Key: s3Key,
-        parentId: params.parentId,
-        uploadId: uploadRsp.UploadId,
-        uploadProgress: 0, // Initialize progress to 0
-      },
-    });
+  /**
+   * Search files, all the criteria must match. Trashed files are never found.
+   * `name` is a case-insensitive substring, or a glob if it contains '*' or '?', matched in SQL with ILIKE.
+   * With `rootId`, the folder and all its subfolders are searched, walked by a recursive query,
+   * otherwise the whole bucket, narrowed to what `principal` can see if it is provided, see getVisibleCondition.
+   * The page is selected in SQL, 10 files by default.
+   */
+  async searchFiles(params: {
+    name?: string;
+    type?: string; // A MIME type, 'image/*' matches all the image types.
+    extension?: string; // With or without the leading dot.
+    minSize?: number;
+    maxSize?: number;
+    createdAfter?: Date;
+    createdBefore?: Date;
+    updatedAfter?: Date;
+    updatedBefore?: Date;
+    rootId?: string;
+    bucket?: string; // Ignored if `rootId` is provided.
+    includePending?: boolean;
+    principal?: AwsS3Principal;
+    sortBy?: 'name' | 'size' | 'createdAt' | 'updatedAt';
+    sortOrder?: 'asc' | 'desc';
+    page?: number;
+    pageSize?: number;
+  }) {
+    const conditions: Prisma.Sql[] = [Prisma.sql`"trashedAt" IS NULL`];
+
+    // [step 1] Scope the search to a folder tree or a bucket.
+    if (params.rootId) {
+      await this.checkAccess(params.principal, params.rootId, 'read');
+      const root = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: params.rootId, type: 'folder', trashedAt: null},
+        select: {id: true},
+      });
+      conditions.push(Prisma.sql`"parentId" IN (
+        WITH RECURSIVE subtree AS (
+          SELECT id FROM "microservice/aws-s3"."S3File" WHERE id = ${root.id}::uuid
+          UNION ALL
+          SELECT child.id FROM "microservice/aws-s3"."S3File" child
+          JOIN subtree ON child."parentId" = subtree.id
+          WHERE child.type = 'folder'
+        )
+        SELECT id FROM subtree
+      )`);
+    } else {
+      conditions.push(Prisma.sql`"s3Bucket" = ${await this.resolveBucket(params.bucket)}`);
+      if (params.principal) {
+        conditions.push(this.access.getVisibleCondition(params.principal));
+      }
+    }
+    if (!params.includePending) {
+      conditions.push(Prisma.sql`status <> 'pending'`);
+    }
+
+    // [step 2] Match the name and the type. The wildcards of LIKE are escaped, then the ones of the glob translated.
+    const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+    if (params.name && /[*?]/.test(params.name)) {
+      const pattern = escapeLike(params.name).replace(/\*/g, '%').replace(/\?/g, '_');
+      conditions.push(Prisma.sql`name ILIKE ${pattern}`);
+    } else if (params.name) {
+      conditions.push(Prisma.sql`name ILIKE ${'%' + escapeLike(params.name) + '%'}`);
+    }
+    if (params.extension) {
+      conditions.push(Prisma.sql`name ILIKE ${'%.' + escapeLike(params.extension.replace(/^\./, ''))}`);
+    }
+    if (params.type) {
+      conditions.push(
+        params.type.endsWith('/*')
+          ? Prisma.sql`type LIKE ${escapeLike(params.type.slice(0, -1)) + '%'}`
+          : Prisma.sql`type = ${params.type}`
+      );
+    }
+
+    // [step 3] Match the size and the dates.
+    if (params.minSize !== undefined) {
+      conditions.push(Prisma.sql`size >= ${params.minSize}`);
+    }
+    if (params.maxSize !== undefined) {
+      conditions.push(Prisma.sql`size <= ${params.maxSize}`);
+    }
+    if (params.createdAfter) {
+      conditions.push(Prisma.sql`"createdAt" >= ${params.createdAfter}`);
+    }
+    if (params.createdBefore) {
+      conditions.push(Prisma.sql`"createdAt" <= ${params.createdBefore}`);
+    }
+    if (params.updatedAfter) {
+      conditions.push(Prisma.sql`"updatedAt" >= ${params.updatedAfter}`);
+    }
+    if (params.updatedBefore) {
+      conditions.push(Prisma.sql`"updatedAt" <= ${params.updatedBefore}`);
+    }
+
+    // [step 4] Count the files and get the page.
+    const where = Prisma.join(conditions, ' AND ');
+    const page = params.page ?? 1;
+    const pageSize = params.pageSize ?? 10;
+    const sortBy = SEARCH_SORT_COLUMNS[params.sortBy ?? 'name'];
+    const sortOrder = params.sortOrder === 'desc' ? Prisma.raw('DESC') : Prisma.raw('ASC');
+    const [{count}] = await this.prisma.$queryRaw<{count: bigint}[]>`
+      SELECT COUNT(*) AS count FROM "microservice/aws-s3"."S3File" WHERE ${where}
+    `;
+    const records = await this.prisma.$queryRaw<S3File[]>`
+      SELECT * FROM "microservice/aws-s3"."S3File" WHERE ${where}
+      ORDER BY ${sortBy} ${sortOrder}, id ASC
+      LIMIT ${pageSize} OFFSET ${(page - 1) * pageSize}
+    `;
+
+    return {
+      records,
+      pagination: {page, pageSize, countOfCurrentPage: records.length, countOfTotal: Number(count)},
+    };
   }
 
-  async uploadPart(params: {
-    uploadId: string;
-    uploadProgress: number;
-    partNumber: number;
-    body: Buffer | Uint8Array | Blob | string;
+  /**
+   * Patch the tags and metadata of a file or folder. Keys set to null are removed, the others are set.
+   * They are mirrored to the object where S3's limits allow, and removed from it where they do not anymore.
+   */
+  async updateFileAttributes(params: {
+    fileId: string;
+    tags?: Record<string, string | null>;
+    metadata?: Record<string, Prisma.InputJsonValue | null>;
+    principal?: AwsS3Principal;
   }) {
+    await this.checkAccess(params.principal, params.fileId, 'write');
     const file = await this.prisma.s3File.findFirstOrThrow({
-      where: {uploadId: params.uploadId},
+      where: {id: params.fileId, trashedAt: null},
     });
 
-    await this.prisma.s3File.update({
+    // [step 1] Merge the changes into the record.
+    const tags = params.tags ? this.mergeAttributes(file.tags, params.tags) : undefined;
+    const metadata = params.metadata ? this.mergeAttributes(file.metadata, params.metadata) : undefined;
+    this.checkTags(tags);
+    let updatedFile = await this.prisma.s3File.update({
       where: {id: file.id},
-      data: {uploadProgress: params.uploadProgress},
+      data: {tags, metadata},
     });
 
-    return await this.s3.uploadPart({
-      bucket: file.s3Bucket,
-      key: file.s3Key,
-      ...params,
-    });
+    // [step 2] Mirror them to the object. Folders and pending uploads have none,
+    // and a deduplicated object is shared with other files.
+    if (file.type === 'folder' || file.status !== S3FileStatus.available || file.s3Key.startsWith(DEDUP_FOLDER_PATH)) {
+      return updatedFile;
+    }
+    const attributes = this.getObjectAttributes(updatedFile);
+
+    // User metadata can only be replaced by copying the object onto itself, which CopyObject cannot do above 5 GB.
+    if (metadata && (file.size ?? 0) <= MAX_COPY_OBJECT_SIZE) {
+      const s3CopyResponse = await this.s3.copyObject({
+        bucket: file.s3Bucket,
+        sourceKey: file.s3Key,
+        destinationKey: file.s3Key,
+        metadata: attributes.metadata ?? {},
+      });
+      updatedFile = await this.prisma.s3File.update({
+        where: {id: file.id},
+        data: {
+          etag: s3CopyResponse.CopyObjectResult?.ETag,
+          versionId: s3CopyResponse.VersionId,
+          checksumSHA256: s3CopyResponse.CopyObjectResult?.ChecksumSHA256 ?? null,
+        },
+      });
+    }
+    if (tags) {
+      await this.s3.putObjectTagging({bucket: file.s3Bucket, key: file.s3Key, tags: attributes.tags ?? {}});
+    }
+
+    return updatedFile;
   }
 
-  async completeMultipartUpload(params: {uploadId: string; parts: {ETag: string; PartNumber: number}[]}) {
-    const file = await this.prisma.s3File.findFirstOrThrow({
-      where: {uploadId: params.uploadId},
-    });
+  //********************/
+  //* Trash operations */
+  //********************/
 
-    const response = await this.s3.completeMultipartUpload({
-      bucket: file.s3Bucket,
-      key: file.s3Key,
-      parts: params.parts,
-      uploadId: params.uploadId,
+  /**
+   * Move a file or folder to the trash, along with the files in the folder.
+   * Nothing is deleted in AWS S3 until the trash is purged, and trashed files keep their s3Keys.
+   */
+  async deleteFile(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'write');
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: fileId, trashedAt: null},
     });
 
-    return await this.prisma.s3File.update({
-      where: {id: file.id},
-      data: {
-        s3Response: response as object,
-        uploadProgress: 100, // Set progress to 100% after completion
-      },
-    });
+    // Record the original location for restoring.
+    const trashedFrom = file.parentId ? await this.getFilePathString(file.parentId) : '';
+    const trashedAt = new Date();
+    const descendantIds = await this.getDescendantIds(file.id);
+
+    await this.prisma.$transaction([
+      this.prisma.s3File.update({
+        where: {id: file.id},
+        data: {trashedAt, trashedFrom},
+      }),
+      // Files trashed before keep their own trashedAt and trashedFrom.
+      this.prisma.s3File.updateMany({
+        where: {id: {in: descendantIds}, trashedAt: null},
+        data: {trashedAt},
+      }),
+    ]);
   }
 
-  async abortMultipartUpload(uploadId: string) {
+  /**
+   * Restore a trashed file or folder, along with the files trashed with it.
+   * The files keep the keys of their objects: if the original folder is in the trash, it must be restored first,
+   * and if it was purged, a folder with the same path is created.
+   * If the name is taken in the folder, a random string is appended to it.
+   * Throw if the restored files exceed the quotas of the folder.
+   */
+  async restoreFile(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'write');
     const file = await this.prisma.s3File.findFirstOrThrow({
-      where: {uploadId},
-      select: {s3Bucket: true, s3Key: true},
+      where: {id: fileId, trashedFrom: {not: null}},
+    });
+
+    // [step 1] Find the folder to restore to.
+    let parentId: string | null = null;
+    if (file.parentId) {
+      const parent = await this.prisma.s3File.findFirst({
+        where: {id: file.parentId},
+        select: {id: true, trashedAt: true},
+      });
+      if (parent?.trashedAt) {
+        throw new Error(`The folder '${file.trashedFrom}' is in the trash, restore it first.`);
+      }
+      parentId = parent?.id ?? null;
+
+      if (!parentId && file.trashedFrom) {
+        parentId = (await this.createOrGetFolder({path: file.trashedFrom, bucket: file.s3Bucket})) ?? null;
+      }
+    }
+
+    // [step 2] The file is restored in place, its objects keep their keys: its folder must be the one of its s3Key.
+    if (!file.s3Key.startsWith(DEDUP_FOLDER_PATH)) {
+      const parent = parentId
+        ? await this.prisma.s3File.findFirstOrThrow({where: {id: parentId}, select: {s3Key: true}})
+        : null;
+      if ((parent?.s3Key ?? null) !== this.getParentS3Key(file.s3Key)) {
+        throw new Error(`The folder '${file.trashedFrom}' was replaced, the file cannot be restored to it.`);
+      }
+    }
+
+    // [step 3] Check the quotas of the folder.
+    await this.quota.checkRestore({file, parentId});
+
+    // [step 4] Rename the file if a file with the same name exists in the folder.
+    let name = file.name;
+    const existingFile = await this.prisma.s3File.findFirst({
+      where: {name, s3Bucket: file.s3Bucket, parentId, trashedAt: null},
+      select: {id: true},
+    });
+    if (existingFile) {
+      name = await this.appendRandomString(name, file.type === 'folder');
+    }
+
+    // [step 5] Restore the file and the files trashed with it.
+    const descendantIds = await this.getDescendantIds(file.id);
+    const [restoredFile] = await this.prisma.$transaction([
+      this.prisma.s3File.update({
+        where: {id: file.id},
+        data: {name, parentId, trashedAt: null, trashedFrom: null},
+      }),
+      this.prisma.s3File.updateMany({
+        where: {id: {in: descendantIds}, trashedAt: file.trashedAt, trashedFrom: null},
+        data: {trashedAt: null},
+      }),
+    ]);
+    return restoredFile;
+  }
+
+  /** Delete a trashed file or folder in AWS S3, then delete the records in the database. */
+  async purgeFile(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'manage');
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: fileId, trashedAt: {not: null}},
+    });
+
+    await this.deleteFileAndObjects(file.id);
+  }
+
+  /**
+   * Delete a file or folder, trashed or not, with its objects, and everything recorded with it:
+   * image variants, quotas, permissions and share links. Throws if one of its objects could not be deleted.
+   */
+  async deleteFileAndObjects(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'manage');
+    const failures = await this.deleteFilesAndObjects([fileId]);
+    if (failures.has(fileId)) {
+      throw new Error(failures.get(fileId));
+    }
+  }
+
+  /**
+   * Run an operation on each file or folder, `batchConcurrency` at a time, and report the result of each in order.
+   * The failure of one does not stop the others. Purged files have their objects deleted together,
+   * with as few DeleteObjects requests as possible.
+   */
+  async runBatchOperation(params: {
+    operation: AwsS3BatchOperation;
+    fileIds: string[];
+    destinationParentId?: string; // For 'move' and 'copy', the root of the destination bucket if not provided.
+    destinationBucket?: string; // For 'move' and 'copy', ignored if `destinationParentId` is provided.
+    ownerId?: string; // The user running the operation, who owns the copies.
+    principal?: AwsS3Principal; // The files it lacks the permission on fail.
+  }) {
+    const fileIds = [...new Set(params.fileIds)];
+    const results = new Map<string, {fileId: string; success: boolean; destinationFileId?: string; error?: string}>();
+
+    // [step 1] Purge the files in the trash at once.
+    if (params.operation === 'purge') {
+      const trashedFiles = await this.prisma.s3File.findMany({
+        where: {id: {in: fileIds}, trashedAt: {not: null}},
+        select: {id: true},
+      });
+      const errors = new Map<string, string>();
+      for (const {id} of trashedFiles) {
+        await this.checkAccess(params.principal, id, 'manage').catch((error: Error) => errors.set(id, error.message));
+      }
+      const failures = await this.deleteFilesAndObjects(trashedFiles.map(({id}) => id).filter(id => !errors.has(id)));
+      for (const fileId of fileIds) {
+        const error = trashedFiles.some(({id}) => id === fileId)
+          ? (errors.get(fileId) ?? failures.get(fileId))
+          : `The file ${fileId} is not in the trash.`;
+        results.set(fileId, {fileId, success: !error, error});
+      }
+      return fileIds.map(fileId => results.get(fileId)!);
+    }
+
+    // [step 2] Run the other operations on a queue of `batchConcurrency` workers.
+    // The names in the destination folder are allocated through a shared set, two files cannot get the same one.
+    const reservedNames = new Set<string>();
+    let nextIndex = 0;
+    const runNextItems = async () => {
+      while (nextIndex < fileIds.length) {
+        const fileId = fileIds[nextIndex++];
+        try {
+          const destination = {
+            destinationParentId: params.destinationParentId,
+            destinationBucket: params.destinationBucket,
+            reservedNames,
+            principal: params.principal,
+          };
+          let destinationFileId: string | undefined;
+          if (params.operation === 'delete') {
+            await this.deleteFile(fileId, params.principal);
+          } else if (params.operation === 'move') {
+            ({id: destinationFileId} = await this.moveFileOrFolder({fileId, ...destination}));
+          } else {
+            ({id: destinationFileId} = await this.copyFileOrFolder({fileId, ...destination, ownerId: params.ownerId}));
+          }
+          results.set(fileId, {fileId, success: true, destinationFileId});
+        } catch (error) {
+          results.set(fileId, {fileId, success: false, error: error instanceof Error ? error.message : String(error)});
+        }
+      }
+    };
+    await Promise.all(Array.from({length: Math.min(this.batchConcurrency, fileIds.length)}, () => runNextItems()));
+
+    return fileIds.map(fileId => results.get(fileId)!);
+  }
+
+  //*******************************/
+  //* Multipart upload operations */
+  //*******************************/
+
+  async createMultipartUpload(params: {
+    name: string;
+    type: string;
+    size: number;
+    parentId?: string;
+    path?: string;
+    bucket?: string;
+    checksumAlgorithm?: AwsS3ChecksumAlgorithm; // Every part must then be uploaded with its checksum.
+    tags?: Record<string, string>;
+    metadata?: Prisma.InputJsonObject;
+    ownerId?: string;
+    principal?: AwsS3Principal;
+  }) {
+    this.checkTags(params.tags);
+    await this.checkFolderAccess(params.principal, params);
+    const bucket = await this.resolveTargetBucket({bucket: params.bucket, parentId: params.parentId});
+
+    // [step 1] Generate s3Key.
+    const s3Key = await this.generateS3Key({
+      name: params.name,
+      parentId: params.parentId,
+      path: params.path,
+    });
+
+    // The quotas stay locked until the record is created, the pending file counts in them from then on.
+    return await this.quota.withQuotaLock(params.parentId, async tx => {
+      await this.quota.checkQuota({parentId: params.parentId, bytes: params.size, files: 1});
+
+      // [step 2] Create a record and initiate multipart upload.
+      const uploadRsp = await this.s3.createMultipartUpload({
+        key: s3Key,
+        bucket: bucket,
+        contentType: params.type,
+        checksumAlgorithm: params.checksumAlgorithm,
+        ...this.getObjectAttributes({s3Key, tags: params.tags, metadata: params.metadata}),
+      });
+
+      // [step 3] Create a record.
+      return await tx.s3File.create({
+        data: {
+          name: params.name,
+          type: params.type,
+          size: params.size,
+          s3Bucket: bucket,
+          s3Key: s3Key,
+          parentId: params.parentId,
+          uploadId: uploadRsp.UploadId,
+          uploadProgress: 0, // Initialize progress to 0
+          status: S3FileStatus.pending,
+          checksumAlgorithm: params.checksumAlgorithm,
+          tags: params.tags,
+          metadata: params.metadata,
+          ownerId: params.ownerId,
+        },
+      });
+    });
+  }
+
+  /**
+   * Upload a part and record it, the upload progress is computed from the bytes received.
+   * If the upload was created with a checksum algorithm, the part checksum is computed unless the client provides it.
+   */
+  async uploadPart(params: {
+    uploadId: string;
+    partNumber: number;
+    body: Buffer | Uint8Array | Blob | string;
+    checksumSHA256?: string;
+    principal?: AwsS3Principal;
+  }) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {uploadId: params.uploadId},
+    });
+    await this.checkAccess(params.principal, file.id, 'write');
+
+    // [step 1] Get the part checksum.
+    let body = params.body;
+    let checksumSHA256: string | undefined;
+    if (file.checksumAlgorithm) {
+      body = body instanceof Blob ? Buffer.from(await body.arrayBuffer()) : body;
+      checksumSHA256 = params.checksumSHA256 ?? this.checksumSHA256(Buffer.from(body));
+    } else if (params.checksumSHA256) {
+      throw new Error('The multipart upload was created without a checksum algorithm.');
+    }
+
+    // [step 2] Upload the part.
+    const part = await this.s3.uploadPart({
+      bucket: file.s3Bucket,
+      key: file.s3Key,
+      body,
+      partNumber: params.partNumber,
+      uploadId: params.uploadId,
+      checksumSHA256,
+    });
+
+    // [step 3] Record the part, an uploaded-again part replaces the previous one.
+    const size = body instanceof Blob ? body.size : Buffer.byteLength(body);
+    await this.prisma.s3UploadPart.upsert({
+      where: {uploadId_partNumber: {uploadId: params.uploadId, partNumber: params.partNumber}},
+      create: {
+        fileId: file.id,
+        uploadId: params.uploadId,
+        partNumber: params.partNumber,
+        etag: part.ETag!,
+        size,
+        checksumSHA256: part.ChecksumSHA256,
+      },
+      update: {etag: part.ETag!, size, checksumSHA256: part.ChecksumSHA256},
+    });
+
+    // [step 4] Update the progress.
+    const {uploadProgress} = await this.updateUploadProgress(file);
+    return {...part, uploadProgress};
+  }
+
+  /**
+   * List the parts already uploaded, so that an interrupted upload can be resumed.
+   * ListParts is the source of truth, the recorded parts are replaced with its result.
+   */
+  async listUploadedParts(uploadId: string, principal?: AwsS3Principal) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {uploadId},
+    });
+    await this.checkAccess(principal, file.id, 'write');
+
+    // [step 1] List the parts in S3.
+    const parts = await this.s3.listParts({bucket: file.s3Bucket, key: file.s3Key, uploadId});
+
+    // [step 2] Replace the recorded parts.
+    await this.prisma.$transaction([
+      this.prisma.s3UploadPart.deleteMany({where: {uploadId}}),
+      this.prisma.s3UploadPart.createMany({
+        data: parts.map(part => {
+          return {
+            fileId: file.id,
+            uploadId,
+            partNumber: part.PartNumber,
+            etag: part.ETag,
+            size: part.Size,
+            checksumSHA256: part.ChecksumSHA256,
+          };
+        }),
+      }),
+    ]);
+
+    // [step 3] Update the progress.
+    const {receivedBytes, uploadProgress} = await this.updateUploadProgress(file);
+    return {
+      fileId: file.id,
+      uploadId,
+      size: file.size,
+      receivedBytes,
+      uploadProgress,
+      parts: parts.map(part => {
+        return {partNumber: part.PartNumber, etag: part.ETag, size: part.Size, checksumSHA256: part.ChecksumSHA256};
+      }),
+    };
+  }
+
+  /**
+   * If `parts` is not provided, the parts listed by S3 are assembled.
+   * With a checksum algorithm, the part checksums listed by S3 are verified against the recorded ones,
+   * then the checksum of the object is verified against the part checksums.
+   * A corrupted object is deleted and the file is marked as failed.
+   * The record gets the actual size, a larger object than declared is failed and deleted if it exceeds the quotas,
+   * and the quota error is thrown.
+   */
+  async completeMultipartUpload(params: {
+    uploadId: string;
+    parts?: {ETag: string; PartNumber: number; ChecksumSHA256?: string}[];
+    principal?: AwsS3Principal;
+  }) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {uploadId: params.uploadId},
+    });
+    await this.checkAccess(params.principal, file.id, 'write');
+
+    // [step 1] Get the parts to assemble.
+    let parts = params.parts;
+    if (!parts || file.checksumAlgorithm) {
+      const uploadedParts = await this.s3.listParts({bucket: file.s3Bucket, key: file.s3Key, uploadId: params.uploadId});
+      const checksums = new Map(uploadedParts.map(part => [part.PartNumber, part.ChecksumSHA256]));
+
+      // [step 2] Verify the part checksums.
+      if (file.checksumAlgorithm) {
+        const recordedParts = await this.prisma.s3UploadPart.findMany({
+          where: {uploadId: params.uploadId, checksumSHA256: {not: null}},
+          select: {partNumber: true, checksumSHA256: true},
+        });
+        for (const part of recordedParts) {
+          if (checksums.get(part.partNumber) !== part.checksumSHA256) {
+            throw new Error(`Part ${part.partNumber} does not match its recorded checksum.`);
+          }
+        }
+      }
+
+      parts = (parts ?? uploadedParts).map(part => {
+        return {
+          ETag: part.ETag,
+          PartNumber: part.PartNumber,
+          ChecksumSHA256: part.ChecksumSHA256 ?? checksums.get(part.PartNumber),
+        };
+      });
+    }
+
+    // [step 3] Complete the upload and verify the checksum of the object.
+    const response = await this.s3.completeMultipartUpload({
+      bucket: file.s3Bucket,
+      key: file.s3Key,
+      parts,
+      uploadId: params.uploadId,
+    });
+    if (file.checksumAlgorithm) {
+      try {
+        this.verifyCompositeChecksum(response.ChecksumSHA256, parts);
+      } catch (error) {
+        await this.s3.deleteObject({bucket: file.s3Bucket, key: file.s3Key, versionId: response.VersionId});
+        await this.prisma.s3UploadPart.deleteMany({where: {uploadId: params.uploadId}});
+        await this.prisma.s3File.update({
+          where: {id: file.id},
+          data: {status: S3FileStatus.failed},
+        });
+        throw error;
+      }
+    }
+
+    // [step 4] Check the actual size against the quotas, like confirmUpload, and update the record.
+    // The quotas stay locked until the record has the actual size.
+    await this.prisma.s3UploadPart.deleteMany({where: {uploadId: params.uploadId}});
+    const head = await this.s3.headObject({bucket: file.s3Bucket, key: file.s3Key, versionId: response.VersionId});
+    const extraBytes = (head.ContentLength ?? 0) - (file.size ?? 0);
+    const completedFile = await this.quota.withQuotaLock(file.parentId, async tx => {
+      try {
+        await this.quota.checkQuota({parentId: file.parentId, bytes: extraBytes, files: 0});
+      } catch (error) {
+        await this.s3.deleteObject({bucket: file.s3Bucket, key: file.s3Key, versionId: response.VersionId});
+        await this.prisma.s3File.update({
+          where: {id: file.id},
+          data: {status: S3FileStatus.failed},
+        });
+        throw error;
+      }
+
+      return await tx.s3File.update({
+        where: {id: file.id},
+        data: {
+          size: head.ContentLength,
+          etag: response.ETag,
+          versionId: response.VersionId,
+          checksumSHA256: response.ChecksumSHA256,
+          s3Response: response as object,
+          uploadProgress: 100, // Set progress to 100% after completion
+          status: S3FileStatus.available,
+        },
+      });
+    });
+
+    // [step 5] Generate the image variants.
+    await this.image.tryGenerateVariants({fileId: file.id});
+    return completedFile;
+  }
+
+  async abortMultipartUpload(uploadId: string, principal?: AwsS3Principal) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {uploadId},
+      select: {id: true, s3Bucket: true, s3Key: true},
     });
+    await this.checkAccess(principal, file.id, 'write');
 
-    return await this.s3.abortMultipartUpload({
+    const response = await this.s3.abortMultipartUpload({
       bucket: file.s3Bucket,
       key: file.s3Key,
       uploadId,
     });
+
+    await this.prisma.s3UploadPart.deleteMany({where: {uploadId}});
+    await this.prisma.s3File.update({
+      where: {id: file.id},
+      data: {status: S3FileStatus.failed},
+    });
+    return response;
   }
 
   //*****************************/
@@ -480,8 +1625,17 @@ export class AwsS3FileService {
     encoding?: string;
     parentId?: string;
     path?: string;
+    bucket?: string;
+    checksumSHA256?: string; // The client must upload with this checksum, S3 verifies the body against it.
+    tags?: Record<string, string>; // Mirrored to the object when the upload is confirmed.
+    metadata?: Prisma.InputJsonObject; // Signed into the URL.
+    ownerId?: string;
+    principal?: AwsS3Principal;
   }) {
+    this.checkTags(params.tags);
+    await this.checkFolderAccess(params.principal, params);
     const name = params.name || generateUuid();
+    const bucket = await this.resolveTargetBucket({bucket: params.bucket, parentId: params.parentId});
 
     // [step 1] Generate s3Key.
     const s3Key = await this.generateS3Key({
@@ -490,16 +1644,25 @@ export class AwsS3FileService {
       path: params.path,
     });
 
-    // [step 2] Create a record.
-    const file = await this.prisma.s3File.create({
-      data: {
-        name: name,
-        type: params.mimeType,
-        size: params.size,
-        s3Bucket: this.bucket,
-        s3Key: s3Key,
-        parentId: params.parentId,
-      },
+    // [step 2] Check the quotas and create a record, the pending file counts in the quotas from then on.
+    const file = await this.quota.withQuotaLock(params.parentId, async tx => {
+      await this.quota.checkQuota({parentId: params.parentId, bytes: params.size ?? 0, files: 1});
+      return await tx.s3File.create({
+        data: {
+          name: name,
+          type: params.mimeType,
+          size: params.size,
+          s3Bucket: bucket,
+          s3Key: s3Key,
+          parentId: params.parentId,
+          status: S3FileStatus.pending,
+          checksumAlgorithm: params.checksumSHA256 ? 'SHA256' : undefined,
+          checksumSHA256: params.checksumSHA256,
+          tags: params.tags,
+          metadata: params.metadata,
+          ownerId: params.ownerId,
+        },
+      });
     });
 
     // [step 3] Get a signed URL.
@@ -508,70 +1671,858 @@ export class AwsS3FileService {
       key: file.s3Key,
       contentType: params.mimeType,
       contentEncoding: params.encoding,
+      checksumSHA256: params.checksumSHA256,
+      metadata: this.getObjectAttributes(file).metadata,
     });
 
     return {fileId: file.id, signedUploadUrl};
   }
 
+  /**
+   * Confirm an upload made with a signed URL. HeadObject tells whether the object exists,
+   * then the record is marked as available with the actual size, ETag and content type, or as failed.
+   * An object whose checksum is not the one the URL was signed with is failed and deleted too.
+   * The tags are mirrored to the object here, a signed URL cannot carry them.
+   * An object larger than the declared size is failed and deleted if it does not fit in the quotas, then it throws.
+   * Multipart uploads are confirmed by completeMultipartUpload, not here: they may still be running.
+   */
+  async confirmUpload(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'write');
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: fileId},
+    });
+    if (file.status === S3FileStatus.available) {
+      return file;
+    }
+    if (file.uploadId) {
+      throw new Error('The file is a multipart upload, complete it with completeMultipartUpload.');
+    }
+
+    try {
+      const head = await this.s3.headObject({bucket: file.s3Bucket, key: file.s3Key});
+      if (file.checksumSHA256 && head.ChecksumSHA256 !== file.checksumSHA256) {
+        await this.s3.deleteObject({bucket: file.s3Bucket, key: file.s3Key, versionId: head.VersionId});
+        return await this.prisma.s3File.update({
+          where: {id: file.id},
+          data: {status: S3FileStatus.failed},
+        });
+      }
+      // The quotas stay locked until the record has the actual size.
+      const extraBytes = (head.ContentLength ?? 0) - (file.size ?? 0);
+      const confirmedFile = await this.quota.withQuotaLock(file.parentId, async tx => {
+        try {
+          await this.quota.checkQuota({parentId: file.parentId, bytes: extraBytes, files: 0});
+        } catch (error) {
+          await this.s3.deleteObject({bucket: file.s3Bucket, key: file.s3Key, versionId: head.VersionId});
+          await this.prisma.s3File.update({
+            where: {id: file.id},
+            data: {status: S3FileStatus.failed},
+          });
+          throw error;
+        }
+
+        return await tx.s3File.update({
+          where: {id: file.id},
+          data: {
+            status: S3FileStatus.available,
+            size: head.ContentLength,
+            etag: head.ETag,
+            versionId: head.VersionId,
+            checksumSHA256: head.ChecksumSHA256,
+            type: head.ContentType ?? file.type,
+          },
+        });
+      });
+      const {tags} = this.getObjectAttributes(file);
+      if (tags) {
+        await this.s3.putObjectTagging({bucket: file.s3Bucket, key: file.s3Key, tags});
+      }
+      await this.image.tryGenerateVariants({fileId: file.id});
+      return confirmedFile;
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return await this.prisma.s3File.update({
+          where: {id: file.id},
+          data: {status: S3FileStatus.failed},
+        });
+      }
+      throw error;
+    }
+  }
+
+  /*
+   * Get signed URLs for uploading the parts `startPartNumber` to `endPartNumber` of a multipart upload directly to AWS S3.
+   * The client uploads each part with a PUT request, keeps the ETag response headers and completes the upload with them.
+   * If the upload was created with a checksum algorithm, the part checksums are required and signed into the URLs.
+   * https://docs.aws.amazon.com/AmazonS3/latest/userguide/mpuoverview.html
+   */
+  async getSignedPartUploadUrls(params: {
+    uploadId: string;
+    startPartNumber: number;
+    endPartNumber: number;
+    checksumsSHA256?: string[]; // One per part, from `startPartNumber` to `endPartNumber`.
+    principal?: AwsS3Principal;
+  }) {
+    // [step 1] Validate the part range.
+    if (
+      params.startPartNumber < 1 ||
+      params.endPartNumber > MAX_PART_COUNT ||
+      params.startPartNumber > params.endPartNumber
+    ) {
+      throw new Error(`Part numbers must be between 1 and ${MAX_PART_COUNT}, in ascending order.`);
+    }
+    if (params.endPartNumber - params.startPartNumber + 1 > MAX_SIGNED_PART_URLS) {
+      throw new Error(`At most ${MAX_SIGNED_PART_URLS} part URLs can be requested at a time.`);
+    }
+
+    // [step 2] Get the multipart upload.
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {uploadId: params.uploadId, uploadProgress: {lt: 100}},
+      select: {id: true, s3Bucket: true, s3Key: true, checksumAlgorithm: true},
+    });
+    await this.checkAccess(params.principal, file.id, 'write');
+    if (file.checksumAlgorithm) {
+      if (params.checksumsSHA256?.length !== params.endPartNumber - params.startPartNumber + 1) {
+        throw new Error('This multipart upload requires a checksum for each part.');
+      }
+    } else if (params.checksumsSHA256) {
+      throw new Error('The multipart upload was created without a checksum algorithm.');
+    }
+
+    // [step 3] Get a signed URL for each part.
+    const parts: {partNumber: number; signedUploadUrl: string}[] = [];
+    for (let partNumber = params.startPartNumber; partNumber <= params.endPartNumber; partNumber++) {
+      parts.push({
+        partNumber,
+        signedUploadUrl: await this.s3.getSignedMultipartUploadUrl({
+          bucket: file.s3Bucket,
+          key: file.s3Key,
+          partNumber,
+          uploadId: params.uploadId,
+          checksumSHA256: params.checksumsSHA256?.[partNumber - params.startPartNumber],
+        }),
+      });
+    }
+
+    return {fileId: file.id, uploadId: params.uploadId, parts};
+  }
+
   /*
-   * Get a signed URL for downloading a file from AWS S3.
-   * This URL can be used by the user to download the file directly from S3.
+   * Get a signed URL for downloading a file from AWS S3, or from the CDN if it serves the file.
+   * This URL can be used by the user to download the file directly from S3 or CloudFront.
    * The URL will expire after a certain period of time, which is defined in the AWS S3 configuration.
+   * Plain CDN URLs of the `cdnPublicPaths` do not expire.
+   * `ipAddress` restricts CloudFront URLs to the client if `cdnRestrictIp` is set.
    * https://docs.aws.amazon.com/zh_cn/AmazonS3/latest/userguide/ShareObjectPreSignedURL.html
    */
-  async getSignedDownloadUrl(fileId: string) {
+  async getSignedDownloadUrl(fileId: string, versionId?: string, ipAddress?: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'read');
     const file = await this.prisma.s3File.findFirst({
       where: {id: fileId},
       select: {s3Bucket: true, s3Key: true},
     });
 
     if (file) {
-      return await this.s3.getSignedDownloadUrl({
-        bucket: file.s3Bucket,
-        key: file.s3Key,
-      });
+      return await this.cdn.getDownloadUrl({file, versionId, ipAddress});
     } else {
       return null;
     }
   }
 
+  //**********************/
+  //* Version operations */
+  //**********************/
+
+  /** The versions of a file in S3, newest first. The one recorded in the database is marked as current. */
+  async listFileVersions(fileId: string, principal?: AwsS3Principal) {
+    await this.checkAccess(principal, fileId, 'read');
+    const file = await this.getVersionedFile(fileId);
+
+    const versions = await this.s3.listObjectVersions({bucket: file.s3Bucket, key: file.s3Key});
+    return versions.map(version => {
+      return {
+        versionId: version.VersionId,
+        isCurrent: version.VersionId === (file.versionId ?? 'null'),
+        isLatest: version.IsLatest,
+        isDeleteMarker: version.IsDeleteMarker,
+        size: version.Size ?? null,
+        etag: version.ETag ?? null,
+        lastModified: version.LastModified,
+      };
+    });
+  }
+
+  /**
+   * Make a prior version the current one. S3 has no rollback, so the version is copied onto the same key,
+   * which creates a new version and keeps all the others.
+   */
+  async restoreFileVersion(params: {fileId: string; versionId: string; principal?: AwsS3Principal}) {
+    await this.checkAccess(params.principal, params.fileId, 'write');
+    const file = await this.getVersionedFile(params.fileId);
+    if (file.s3Key.startsWith(DEDUP_FOLDER_PATH)) {
+      throw new Error('A deduplicated file shares its object with other files, upload the content again instead.');
+    }
+
+    // [step 1] Check the version, a delete marker has no content to restore.
+    const head = await this.s3.headObject({bucket: file.s3Bucket, key: file.s3Key, versionId: params.versionId});
+
+    // [step 2] Copy the version onto the current one. The tags and metadata are the file's, not the version's.
+    const attributes = this.getObjectAttributes(file);
+    const s3CopyResponse = await this.s3.copyObject({
+      bucket: file.s3Bucket,
+      sourceKey: file.s3Key,
+      sourceVersionId: params.versionId,
+      destinationKey: file.s3Key,
+      metadata: attributes.metadata ?? {},
+    });
+    await this.s3.putObjectTagging({bucket: file.s3Bucket, key: file.s3Key, tags: attributes.tags ?? {}});
+
+    // [step 3] Update the record with the restored content, and regenerate its image variants.
+    const restoredFile = await this.prisma.s3File.update({
+      where: {id: file.id},
+      data: {
+        type: head.ContentType ?? file.type,
+        size: head.ContentLength,
+        etag: s3CopyResponse.CopyObjectResult?.ETag,
+        versionId: s3CopyResponse.VersionId,
+        checksumSHA256: s3CopyResponse.CopyObjectResult?.ChecksumSHA256,
+        s3Response: s3CopyResponse as object,
+      },
+    });
+    await this.image.tryGenerateVariants({fileId: file.id});
+    return restoredFile;
+  }
+
+  /** Delete a prior version of a file for good. The current version can only be deleted with the file. */
+  async deleteFileVersion(params: {fileId: string; versionId: string; principal?: AwsS3Principal}) {
+    await this.checkAccess(params.principal, params.fileId, 'manage');
+    const file = await this.getVersionedFile(params.fileId);
+    if (params.versionId === (file.versionId ?? 'null')) {
+      throw new Error('The current version cannot be deleted, delete the file instead.');
+    }
+
+    await this.s3.deleteObject({bucket: file.s3Bucket, key: file.s3Key, versionId: params.versionId});
+  }
+
   //*********************/
   //* Private functions */
   //*********************/
 
-  private async deleteFileRecursively(fileId: string) {
-    // [step 1] Delete file.
-    await this.prisma.s3File.delete({where: {id: fileId}});
+  /**
+   * Throw if the principal lacks the permission on the file or folder, or on the bucket root without `fileId`.
+   * The routes pass the principal of the request, so do the modules acting for a user.
+   * Without a principal, the call is made by the application itself, e.g. the janitor, which has full access.
+   */
+  private async checkAccess(
+    principal: AwsS3Principal | undefined,
+    fileId: string | null | undefined,
+    permission: S3FilePermissionLevel
+  ) {
+    if (principal) {
+      await this.access.checkPermission(principal, fileId, permission);
+    }
+  }
 
-    // [step 2] Delete files in the folder.
-    const filesInFolder = await this.prisma.s3File.findMany({
-      where: {parentId: fileId},
-      select: {id: true},
+  /** Like checkAccess for writing to a path, at its deepest existing folder where the missing ones would be created. */
+  private async checkFolderAccess(
+    principal: AwsS3Principal | undefined,
+    params: {path?: string; parentId?: string; bucket?: string}
+  ) {
+    if (principal) {
+      const folderId = params.path
+        ? await this.access.resolveExistingFolder({...params, path: params.path})
+        : params.parentId;
+      await this.access.checkPermission(principal, folderId, 'write');
+    }
+  }
+
+  private async getVersionedFile(fileId: string) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: fileId},
+      select: {id: true, type: true, s3Bucket: true, s3Key: true, versionId: true, tags: true, metadata: true},
     });
+    if (file.type === 'folder') {
+      throw new Error('A folder has no versions.');
+    }
+    return file;
+  }
 
-    for (let i = 0; i < filesInFolder.length; i++) {
-      await this.deleteFileRecursively(filesInFolder[i].id);
+  /**
+   * Delete the objects of files or folders in AWS S3 record by record, then the records.
+   * Not by prefix, files restored from the trash may still have their s3Keys under the folder.
+   * The records of a file are kept if one of its objects could not be deleted, the errors are returned by file ID.
+   */
+  private async deleteFilesAndObjects(fileIds: string[]) {
+    // [step 1] Get the records of the files and of everything under them.
+    const rootIds = new Map<string, string>();
+    for (const fileId of fileIds) {
+      for (const id of [fileId, ...(await this.getDescendantIds(fileId))]) {
+        rootIds.set(id, fileId);
+      }
     }
+    const files = await this.prisma.s3File.findMany({
+      where: {id: {in: [...rootIds.keys()]}},
+      select: {id: true, s3Bucket: true, s3Key: true},
+    });
+
+    // [step 2] Delete the objects together, and find the files whose objects could not all be deleted.
+    const errors = await this.deleteObjectsIfUnreferenced({
+      objects: files.map(file => ({bucket: file.s3Bucket, key: file.s3Key})),
+      excludedFileIds: [...rootIds.keys()],
+    });
+    const failures = new Map<string, string>();
+    for (const error of errors) {
+      for (const file of files) {
+        if (file.s3Bucket === error.bucket && file.s3Key === error.key) {
+          failures.set(rootIds.get(file.id)!, `Failed to delete the object '${error.key}': ${error.message}`);
+        }
+      }
+    }
+
+    // [step 3] Delete the records of the other files.
+    const deletedIds = [...rootIds.keys()].filter(id => !failures.has(rootIds.get(id)!));
+    await this.image.deleteVariants(deletedIds);
+    await this.quota.deleteQuotas(deletedIds);
+    await this.access.deletePermissions(deletedIds);
+    await this.share.deleteShareLinks(deletedIds);
+    await this.prisma.s3File.deleteMany({where: {id: {in: deletedIds}}});
+    return failures;
   }
 
-  private async getFilePathString(fileId: string) {
-    let path = '';
+  /**
+   * Delete the objects no record other than `excludedFileIds` still references,
+   * deduplicated objects are shared by all the files with the same content.
+   * Each deduplicated object is checked and deleted under its lock, see ensureDeduplicatedObject.
+   * All the versions are deleted, otherwise a versioned bucket would only add a delete marker.
+   * Returns the objects which could not be deleted.
+   */
+  private async deleteObjectsIfUnreferenced(params: {
+    objects: {bucket: string; key: string}[];
+    excludedFileIds?: string[];
+  }) {
+    const keysByBucket = new Map<string, Set<string>>();
+    for (const {bucket, key} of params.objects) {
+      keysByBucket.set(bucket, (keysByBucket.get(bucket) ?? new Set<string>()).add(key));
+    }
+    const deleteAllVersions = async (bucket: string, keys: string[]) => {
+      const versions: {key: string; versionId?: string}[] = [];
+      for (const key of keys) {
+        for (const version of await this.s3.listObjectVersions({bucket, key})) {
+          versions.push({key, versionId: version.VersionId});
+        }
+      }
+      const failures = await this.s3.deleteObjects({bucket, objects: versions});
+      return failures.map(({key, message}) => ({bucket, key, message}));
+    };
+
+    const errors: {bucket: string; key: string; message: string}[] = [];
+    for (const [bucket, keys] of keysByBucket) {
+      // [step 1] Delete the deduplicated objects one at a time, holding their locks.
+      const deduplicatedKeys = [...keys].filter(key => key.startsWith(DEDUP_FOLDER_PATH));
+      for (const key of deduplicatedKeys) {
+        const failures = await this.withObjectLock({bucket, key}, async tx => {
+          const reference = await tx.s3File.findFirst({
+            where: {s3Bucket: bucket, s3Key: key, id: {notIn: params.excludedFileIds ?? []}},
+            select: {id: true},
+          });
+          return reference ? [] : await deleteAllVersions(bucket, [key]);
+        });
+        errors.push(...failures);
+      }
 
-    // [step 1] Get current file.
+      // [step 2] Delete the other objects together, each of them belongs to a single file.
+      const otherKeys = [...keys].filter(key => !key.startsWith(DEDUP_FOLDER_PATH));
+      const references = await this.prisma.s3File.findMany({
+        where: {s3Bucket: bucket, s3Key: {in: otherKeys}, id: {notIn: params.excludedFileIds ?? []}},
+        select: {s3Key: true},
+      });
+      const referencedKeys = new Set(references.map(({s3Key}) => s3Key));
+      errors.push(...(await deleteAllVersions(bucket, otherKeys.filter(key => !referencedKeys.has(key)))));
+    }
+    return errors;
+  }
+
+  /**
+   * Make sure a deduplicated object still exists once a record references it, or store it again with `store`.
+   * The last file referencing it may have been deleted in the meantime, along with the object. The check holds
+   * the lock deleteObjectsIfUnreferenced takes, so the object cannot be deleted after it: the record is seen by then.
+   */
+  private async ensureDeduplicatedObject(params: {
+    fileId: string;
+    bucket: string;
+    key: string;
+    store: () => Promise<{ETag?: string; VersionId?: string; ChecksumSHA256?: string}>;
+  }) {
+    const head = await this.withObjectLock(params, async () => {
+      return await this.headObjectIfExists(params.bucket, params.key);
+    });
+    if (!head) {
+      const output = await params.store();
+      await this.prisma.s3File.update({
+        where: {id: params.fileId},
+        data: {
+          etag: output.ETag,
+          versionId: output.VersionId,
+          checksumSHA256: output.ChecksumSHA256,
+          s3Response: output as object,
+        },
+      });
+    }
+  }
+
+  /** Run `fn` in a transaction holding a lock on an object, other instances of the service included. */
+  private async withObjectLock<T>(
+    params: {bucket: string; key: string},
+    fn: (tx: Prisma.TransactionClient) => Promise<T>
+  ) {
+    return await this.prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${params.bucket + '/' + params.key}))`;
+        return await fn(tx);
+      },
+      {timeout: OBJECT_LOCK_TIMEOUT}
+    );
+  }
+
+  private checksumSHA256(body: Buffer) {
+    return createHash('sha256').update(body).digest('base64');
+  }
+
+  /** The checksum of a multipart object is the checksum of the concatenated part checksums, followed by '-N'. */
+  private verifyCompositeChecksum(checksumSHA256: string | undefined, parts: {ChecksumSHA256?: string}[]) {
+    const digests = parts.map(part => Buffer.from(part.ChecksumSHA256 ?? '', 'base64'));
+    const expected = `${this.checksumSHA256(Buffer.concat(digests))}-${parts.length}`;
+    if (checksumSHA256 !== expected) {
+      throw new Error(`The checksum of the object is ${checksumSHA256}, expected ${expected}.`);
+    }
+  }
+
+  /**
+   * The tags and metadata of a file which S3 can hold. Either is undefined if it is over S3's limits,
+   * both are if the object is deduplicated, since it is shared with other files.
+   */
+  private getObjectAttributes(file: {s3Key: string; tags?: unknown; metadata?: unknown}) {
+    const isRecord = (value: unknown): value is Record<string, unknown> =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (file.s3Key.startsWith(DEDUP_FOLDER_PATH)) {
+      return {tags: undefined, metadata: undefined};
+    }
+
+    return {
+      tags: isRecord(file.tags) && verifyS3Tags(file.tags) ? file.tags : undefined,
+      metadata: isRecord(file.metadata) && verifyS3Metadata(file.metadata) ? file.metadata : undefined,
+    };
+  }
+
+  private checkTags(tags?: Record<string, unknown>) {
+    if (tags && Object.values(tags).some(value => typeof value !== 'string')) {
+      throw new Error('Tag values must be strings.');
+    }
+  }
+
+  /** Apply a patch to a JSON object, keys set to null are removed. */
+  private mergeAttributes(current: Prisma.JsonValue, patch: Record<string, Prisma.InputJsonValue | null>) {
+    const merged: Record<string, Prisma.InputJsonValue> =
+      typeof current === 'object' && current !== null && !Array.isArray(current)
+        ? {...(current as Record<string, Prisma.InputJsonValue>)}
+        : {};
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === null) {
+        delete merged[key];
+      } else {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  /** HeadObject, or undefined if the object does not exist. */
+  private async headObjectIfExists(bucket: string, key: string) {
+    try {
+      return await this.s3.headObject({bucket, key});
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /** One query per folder, as the archive reaches it. Names taken in a folder of the archive get a suffix. */
+  private async *walkZipEntries(
+    files: {id: string; name: string; type: string | null; s3Bucket: string; s3Key: string; updatedAt: Date}[],
+    prefix: string
+  ): AsyncGenerator<ZipEntry> {
+    const names = new Set<string>();
+    for (const file of files) {
+      const baseName = file.name.replace(/[\\/]/g, '_').replace(/^\.{1,2}$/, '_');
+      const extension = file.type === 'folder' ? '' : extname(baseName);
+      let name = baseName;
+      for (let i = 2; names.has(name.toLowerCase()); i++) {
+        name = `${baseName.slice(0, baseName.length - extension.length)} (${i})${extension}`;
+      }
+      names.add(name.toLowerCase());
+
+      if (file.type === 'folder') {
+        yield {name: `${prefix}${name}/`, date: file.updatedAt};
+        const children = await this.prisma.s3File.findMany({
+          where: {parentId: file.id, trashedAt: null, status: S3FileStatus.available},
+          select: {id: true, name: true, type: true, s3Bucket: true, s3Key: true, updatedAt: true},
+          orderBy: {name: 'asc'},
+        });
+        yield* this.walkZipEntries(children, `${prefix}${name}/`);
+      } else {
+        yield {
+          name: `${prefix}${name}`,
+          date: file.updatedAt,
+          open: async () => {
+            const object = await this.s3.getObject({bucket: file.s3Bucket, key: file.s3Key});
+            return {body: object.Body as Readable, size: object.ContentLength ?? 0};
+          },
+        };
+      }
+    }
+  }
+
+  /**
+   * The path of a folder in S3, i.e. its s3Key without the trailing slash.
+   * Renamed and restored folders keep their s3Keys, so the path is not always made of the folder names.
+   */
+  private async getFilePathString(fileId: string) {
     const file = await this.prisma.s3File.findFirstOrThrow({
       where: {id: fileId},
-      select: {id: true, name: true, type: true, parentId: true},
+      select: {s3Key: true},
     });
-    path = file.name;
 
-    // [step 2] Get parent file.
-    if (file.parentId) {
-      path = (await this.getFilePathString(file.parentId)) + '/' + path;
-    } else {
-      // Do nothing.
+    return file.s3Key.replace(/\/$/, '');
+  }
+
+  /** The IDs of all the files in a folder and its subfolders, one query per level. */
+  private async getDescendantIds(fileId: string) {
+    const descendantIds: string[] = [];
+
+    let parentIds = [fileId];
+    while (parentIds.length > 0) {
+      const children = await this.prisma.s3File.findMany({
+        where: {parentId: {in: parentIds}},
+        select: {id: true},
+      });
+      parentIds = children.map(({id}) => id);
+      descendantIds.push(...parentIds);
     }
 
-    return path;
+    return descendantIds;
+  }
+
+  /**
+   * Return a name and an s3Key that are not used in the destination folder,
+   * appending a random string to the name if needed. Trashed files keep their s3Keys, so both are checked.
+   * The name is added to `reservedNames` as soon as it is found available, concurrent callers sharing the set
+   * cannot get the same one before their records exist.
+   */
+  private async generateAvailableName(params: {
+    bucket: string;
+    parentId: string | null;
+    name: string;
+    isFolder?: boolean;
+    reservedNames?: Set<string>; // The names taken in the folder by records not created yet.
+  }) {
+    const parentPath = params.parentId ? (await this.getFilePathString(params.parentId)) + '/' : '';
+
+    let name = params.name;
+    for (;;) {
+      const s3Key = parentPath + name + (params.isFolder ? '/' : '');
+      const existingFile = await this.prisma.s3File.findFirst({
+        where: {
+          s3Bucket: params.bucket,
+          OR: [{s3Key}, {name, parentId: params.parentId, trashedAt: null}],
+        },
+        select: {id: true},
+      });
+      if (!existingFile && !params.reservedNames?.has(name)) {
+        params.reservedNames?.add(name);
+        return {name, s3Key};
+      }
+
+      name = await this.appendRandomString(params.name, params.isFolder);
+    }
+  }
+
+  /** 'image.png' becomes 'imageXXXXXX.png', the extension of a folder name is not kept apart. */
+  private async appendRandomString(name: string, isFolder?: boolean) {
+    const ext = isFolder ? '' : extname(name);
+    const randomStr = await generateRandomString(6);
+
+    return ext === '' ? name + randomStr : name.slice(0, -ext.length) + randomStr + ext;
+  }
+
+  /**
+   * Upload a buffer with a multipart upload, `multipartQueueSize` parts at a time.
+   * Each part is retried `multipartRetries` times, the upload is aborted if a part still fails.
+   */
+  private async putObjectInParts(params: {
+    bucket: string;
+    key: string;
+    body: Buffer;
+    contentType?: string;
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }) {
+    const partSize = Math.max(this.multipartPartSize, MIN_PART_SIZE, Math.ceil(params.body.length / MAX_PART_COUNT));
+    const partCount = Math.ceil(params.body.length / partSize);
+
+    // [step 1] Initiate the multipart upload.
+    const {UploadId: uploadId} = await this.s3.createMultipartUpload({
+      bucket: params.bucket,
+      key: params.key,
+      contentType: params.contentType,
+      checksumAlgorithm: 'SHA256',
+      tags: params.tags,
+      metadata: params.metadata,
+    });
+    if (!uploadId) {
+      throw new Error('Failed to initiate the multipart upload.');
+    }
+
+    // [step 2] Upload the parts. A failure stops the queue from taking new parts.
+    const parts: {ETag: string; PartNumber: number; ChecksumSHA256: string}[] = [];
+    let nextPartIndex = 0;
+    let failed = false;
+    const uploadNextParts = async () => {
+      while (!failed && nextPartIndex < partCount) {
+        const partIndex = nextPartIndex++;
+        try {
+          parts[partIndex] = await this.uploadPartWithRetry({
+            bucket: params.bucket,
+            key: params.key,
+            body: params.body.subarray(partIndex * partSize, (partIndex + 1) * partSize),
+            partNumber: partIndex + 1,
+            uploadId,
+          });
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    const results = await Promise.allSettled(
+      Array.from({length: Math.min(this.multipartQueueSize, partCount)}, () => uploadNextParts())
+    );
+
+    // [step 3] Complete the upload, or abort it once no part is in flight anymore.
+    const rejected = results.find(result => result.status === 'rejected');
+    let output: Awaited<ReturnType<AwsS3StorageDriver['completeMultipartUpload']>>;
+    try {
+      if (rejected) {
+        throw rejected.reason;
+      }
+      output = await this.s3.completeMultipartUpload({
+        bucket: params.bucket,
+        key: params.key,
+        parts,
+        uploadId,
+      });
+    } catch (error) {
+      await this.s3.abortMultipartUpload({bucket: params.bucket, key: params.key, uploadId});
+      throw error;
+    }
+
+    // [step 4] Verify the checksum of the assembled object. A corrupted object is deleted.
+    try {
+      this.verifyCompositeChecksum(output.ChecksumSHA256, parts);
+    } catch (error) {
+      await this.s3.deleteObject({bucket: params.bucket, key: params.key, versionId: output.VersionId});
+      throw error;
+    }
+    return output;
+  }
+
+  private async uploadPartWithRetry(params: {
+    bucket: string;
+    key: string;
+    body: Buffer;
+    partNumber: number;
+    uploadId: string;
+  }) {
+    const checksumSHA256 = this.checksumSHA256(params.body);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const part = await this.s3.uploadPart({...params, checksumSHA256});
+        return {ETag: part.ETag!, PartNumber: part.PartNumber, ChecksumSHA256: checksumSHA256};
+      } catch (error) {
+        if (attempt >= this.multipartRetries) {
+          throw error;
+        }
+        await sleep(2 ** attempt * 200); // Exponential backoff
+      }
+    }
+  }
+
+  /**
+   * Copy the prior versions of an object, oldest first, so that the copy of the current version made next is latest.
+   * They are copied under new version IDs, if the destination bucket is versioned.
+   */
+  private async copyPriorVersions(params: {
+    file: {s3Bucket: string; s3Key: string; versionId: string | null; tags: Prisma.JsonValue};
+    destinationKey: string;
+    destinationBucket: string;
+  }) {
+    const {file} = params;
+    const versions = await this.s3.listObjectVersions({bucket: file.s3Bucket, key: file.s3Key});
+    const priorVersions = versions
+      .filter(version => !version.IsDeleteMarker && version.VersionId !== (file.versionId ?? 'null'))
+      .sort((a, b) => a.LastModified.getTime() - b.LastModified.getTime());
+
+    for (const version of priorVersions) {
+      if ((version.Size ?? 0) > MAX_COPY_OBJECT_SIZE) {
+        await this.copyObjectInParts({
+          file,
+          sourceVersionId: version.VersionId,
+          destinationKey: params.destinationKey,
+          destinationBucket: params.destinationBucket,
+        });
+      } else {
+        await this.s3.copyObject({
+          bucket: file.s3Bucket,
+          sourceKey: file.s3Key,
+          sourceVersionId: version.VersionId,
+          destinationKey: params.destinationKey,
+          destinationBucket: params.destinationBucket,
+        });
+      }
+    }
+  }
+
+  /**
+   * Copy an object with UploadPartCopy, the parts are copied within S3 `multipartQueueSize` at a time.
+   * Unlike CopyObject, UploadPartCopy does not copy the content type, the metadata and the tags:
+   * they are read from the source object and from the record.
+   */
+  private async copyObjectInParts(params: {
+    file: {s3Bucket: string; s3Key: string; tags: Prisma.JsonValue};
+    sourceVersionId?: string; // Defaults to the current version.
+    destinationKey: string;
+    destinationBucket: string;
+  }) {
+    const {file} = params;
+
+    // [step 1] Initiate the multipart upload with the attributes of the source object.
+    // The parts are sized from the object, the size of the record is only what the client declared.
+    const source = await this.s3.headObject({
+      bucket: file.s3Bucket,
+      key: file.s3Key,
+      versionId: params.sourceVersionId,
+    });
+    const size = source.ContentLength;
+    if (!size) {
+      throw new Error(`The object '${file.s3Key}' is empty or its size is unknown.`);
+    }
+    const partSize = Math.max(COPY_PART_SIZE, Math.ceil(size / MAX_PART_COUNT));
+    const partCount = Math.ceil(size / partSize);
+    const {UploadId: uploadId} = await this.s3.createMultipartUpload({
+      bucket: params.destinationBucket,
+      key: params.destinationKey,
+      contentType: source.ContentType,
+      checksumAlgorithm: 'SHA256',
+      tags: this.getObjectAttributes(file).tags,
+      metadata: source.Metadata,
+    });
+    if (!uploadId) {
+      throw new Error('Failed to initiate the multipart upload.');
+    }
+
+    // [step 2] Copy the parts. A failure stops the queue from taking new parts.
+    const parts: {ETag: string; PartNumber: number; ChecksumSHA256?: string}[] = [];
+    let nextPartIndex = 0;
+    let failed = false;
+    const copyNextParts = async () => {
+      while (!failed && nextPartIndex < partCount) {
+        const partIndex = nextPartIndex++;
+        try {
+          const part = await this.s3.uploadPartCopy({
+            bucket: file.s3Bucket,
+            sourceKey: file.s3Key,
+            sourceVersionId: source.VersionId,
+            sourceRange: {start: partIndex * partSize, end: Math.min((partIndex + 1) * partSize, size) - 1},
+            destinationBucket: params.destinationBucket,
+            destinationKey: params.destinationKey,
+            partNumber: partIndex + 1,
+            uploadId,
+          });
+          if (!part.ETag) {
+            throw new Error(`S3 returned no ETag for the copied part ${part.PartNumber}.`);
+          }
+          parts[partIndex] = {ETag: part.ETag, PartNumber: part.PartNumber, ChecksumSHA256: part.ChecksumSHA256};
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    const results = await Promise.allSettled(
+      Array.from({length: Math.min(this.multipartQueueSize, partCount)}, () => copyNextParts())
+    );
+
+    // [step 3] Complete the upload, or abort it once no part is in flight anymore.
+    const rejected = results.find(result => result.status === 'rejected');
+    try {
+      if (rejected) {
+        throw rejected.reason;
+      }
+      return await this.s3.completeMultipartUpload({
+        bucket: params.destinationBucket,
+        key: params.destinationKey,
+        parts,
+        uploadId,
+      });
+    } catch (error) {
+      // A failed abort is left to the cleanup of abandoned uploads, the error of the copy is the one to report.
+      await this.s3
+        .abortMultipartUpload({bucket: params.destinationBucket, key: params.destinationKey, uploadId})
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /** Progress stays below 100 until the multipart upload is completed. */
+  private async updateUploadProgress(file: {id: string; size: number | null; uploadId: string | null}) {
+    const {_sum} = await this.prisma.s3UploadPart.aggregate({
+      where: {uploadId: file.uploadId!},
+      _sum: {size: true},
+    });
+    const receivedBytes: number = _sum.size ?? 0;
+    const uploadProgress = file.size ? Math.min(Math.floor((receivedBytes * 100) / file.size), 99) : 0;
+
+    await this.prisma.s3File.update({
+      where: {id: file.id},
+      data: {uploadProgress},
+    });
+    return {receivedBytes, uploadProgress};
+  }
+
+  /** The bucket of the parent folder if there is one, otherwise the requested bucket. */
+  private async resolveTargetBucket(params: {bucket?: string; parentId?: string | null}) {
+    if (params.parentId) {
+      const parent = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: params.parentId},
+        select: {s3Bucket: true, trashedAt: true},
+      });
+      if (parent.trashedAt) {
+        throw new Error('The parent folder is in the trash.');
+      }
+      if (params.bucket && params.bucket !== parent.s3Bucket) {
+        throw new Error(`The parent folder is not in the bucket '${params.bucket}'.`);
+      }
+      return parent.s3Bucket;
+    }
+
+    return await this.resolveBucket(params.bucket);
+  }
+
+  /** 'a/b/c.txt' and 'a/b/c/' both return 'a/b/', root level keys return null. */
+  private getParentS3Key(s3Key: string) {
+    const parts = (s3Key.endsWith('/') ? s3Key.slice(0, -1) : s3Key).split('/');
+    return parts.length > 1 ? parts.slice(0, -1).join('/') + '/' : null;
   }
 
   private async generateS3Key(params: {name: string; parentId?: string; path?: string}) {
@@ -591,78 +2542,155 @@ export class AwsS3FileService {
   private async copySingleFile(params: {
     file: S3File; // The file to be moved.
     destinationParentId?: string; // The destination folder ID, if not provided, the file will be moved to the root directory.
+    destinationBucket?: string; // The destination bucket, defaults to the bucket of the file.
+    move?: boolean; // Whether the copy replaces the file, it then takes over its share links and stays trashed.
+    ownerId?: string; // The owner of the copy, defaults to the owner of the file.
+    reservedNames?: Set<string>; // See generateAvailableName.
+    createdFileIds?: string[]; // Collects the IDs of the records created, to delete them if the copy fails.
   }) {
     // [step 1] Get the file.
     const file = params.file;
     const destinationParentId = params.destinationParentId || null;
-
-    // [step 2] Check if a file with the same name exists in the destination folder.
-    const existingFile = await this.prisma.s3File.findFirst({
-      where: {
-        name: file.name,
-        s3Bucket: this.bucket,
-        parentId: destinationParentId,
-      },
-      select: {id: true, s3Key: true},
+    const destinationBucket = destinationParentId
+      ? await this.resolveTargetBucket({bucket: params.destinationBucket, parentId: destinationParentId})
+      : await this.resolveBucket(params.destinationBucket ?? file.s3Bucket);
+
+    // [step 2] Generate destination name and s3Key, renamed if a file with the same name exists in the destination folder.
+    const {name, s3Key: destinationS3Key} = await this.generateAvailableName({
+      bucket: destinationBucket,
+      parentId: destinationParentId,
+      name: file.name,
+      isFolder: file.type === 'folder',
+      reservedNames: params.reservedNames,
     });
 
-    // [step 3]  Generate destination s3Key and name based on whether the file exists and the overwrite option.
-    if (existingFile) {
-      const ext = extname(file.name);
-      const randomStr = await generateRandomString(6);
-      if (ext === '') {
-        file.name += randomStr;
-      } else {
-        file.name = file.name.slice(0, -ext.length) + randomStr + ext;
+    // [step 3] A deduplicated object keeps its key, and is shared if the destination bucket already has it.
+    const isDeduplicated = file.s3Key.startsWith(DEDUP_FOLDER_PATH);
+    const destinationKey = isDeduplicated ? file.s3Key : destinationS3Key;
+    const copyObject = async (): Promise<{ETag?: string; VersionId?: string; ChecksumSHA256?: string}> => {
+      if ((file.size ?? 0) > MAX_COPY_OBJECT_SIZE) {
+        return await this.copyObjectInParts({file, destinationKey, destinationBucket});
+      }
+      const output = await this.s3.copyObject({
+        bucket: file.s3Bucket,
+        sourceKey: file.s3Key,
+        destinationKey,
+        destinationBucket,
+      });
+      return {...output, ...output.CopyObjectResult};
+    };
+    if (isDeduplicated) {
+      const head = await this.headObjectIfExists(destinationBucket, file.s3Key);
+      if (head) {
+        const newFile = await this.prisma.s3File.create({
+          data: {
+            name: name,
+            type: file.type,
+            size: file.size,
+            s3Bucket: destinationBucket,
+            s3Key: file.s3Key,
+            etag: head.ETag,
+            versionId: head.VersionId,
+            contentHash: file.contentHash,
+            checksumSHA256: head.ChecksumSHA256,
+            tags: file.tags ?? undefined,
+            metadata: file.metadata ?? undefined,
+            ownerId: params.ownerId ?? file.ownerId,
+            s3Response: file.s3Response ?? undefined,
+            parentId: destinationParentId,
+            trashedAt: params.move ? file.trashedAt : undefined,
+            trashedFrom: params.move ? file.trashedFrom : undefined,
+          },
+          select: {id: true, name: true},
+        });
+        params.createdFileIds?.push(newFile.id);
+        await this.ensureDeduplicatedObject({
+          fileId: newFile.id,
+          bucket: destinationBucket,
+          key: file.s3Key,
+          store: copyObject,
+        });
+        await this.image.copyVariants({fileId: file.id, destinationFileId: newFile.id, destinationBucket});
+        await this.access.copyPermissions({fileId: file.id, destinationFileId: newFile.id});
+        if (params.move) {
+          await this.share.moveShareLinks({fileId: file.id, destinationFileId: newFile.id});
+        }
+        return newFile;
       }
-    } else {
-      // Do nothing.
     }
 
-    let destinationS3Key: string;
-    if (destinationParentId) {
-      destinationS3Key = (await this.getFilePathString(destinationParentId)) + `/${file.name}`;
-    } else {
-      destinationS3Key = file.name;
+    // [step 4] Copy the object in S3, in parts above the 5 GB CopyObject can copy, and create a new record.
+    // A move keeps the history of the file, its prior versions are copied first.
+    if (params.move && !isDeduplicated && file.type !== 'folder') {
+      await this.copyPriorVersions({file, destinationKey: destinationS3Key, destinationBucket});
     }
-    if (file.type === 'folder') {
-      destinationS3Key += '/';
-    }
-
-    // [step 4] Copy the object in S3 and create a new record in the database.
-    const s3CopyResponse = await this.s3.copyObject({
-      bucket: this.bucket,
-      sourceKey: encodeURIComponent(file.s3Key), // [issue] https://github.com/aws/aws-sdk-js-v3/issues/6596
-      destinationKey: destinationS3Key,
-    });
-
-    return await this.prisma.s3File.create({
+    const s3CopyResponse = await copyObject();
+    const newFile = await this.prisma.s3File.create({
       data: {
-        name: file.name,
+        name: name,
         type: file.type,
         size: file.size,
-        s3Bucket: file.s3Bucket,
-        s3Key: destinationS3Key,
+        s3Bucket: destinationBucket,
+        s3Key: destinationKey,
+        etag: s3CopyResponse.ETag,
+        versionId: s3CopyResponse.VersionId,
+        checksumSHA256: s3CopyResponse.ChecksumSHA256,
+        contentHash: file.contentHash,
+        tags: file.tags ?? undefined,
+        metadata: file.metadata ?? undefined,
+        ownerId: params.ownerId ?? file.ownerId,
         s3Response: s3CopyResponse as object,
         parentId: destinationParentId,
+        trashedAt: params.move ? file.trashedAt : undefined,
+        trashedFrom: params.move ? file.trashedFrom : undefined,
       },
       select: {id: true, name: true},
     });
+    params.createdFileIds?.push(newFile.id);
+    if (isDeduplicated) {
+      await this.ensureDeduplicatedObject({
+        fileId: newFile.id,
+        bucket: destinationBucket,
+        key: file.s3Key,
+        store: copyObject,
+      });
+    }
+    await this.image.copyVariants({fileId: file.id, destinationFileId: newFile.id, destinationBucket});
+    await this.access.copyPermissions({fileId: file.id, destinationFileId: newFile.id});
+    if (params.move) {
+      await this.share.moveShareLinks({fileId: file.id, destinationFileId: newFile.id});
+    }
+    return newFile;
   }
 
   private async copyFolder(params: {
     folder: S3File; // The folder to be moved.
     destinationParentId?: string; // The destination folder ID, if not provided, the file will be moved to the root directory.
+    destinationBucket?: string; // The destination bucket, defaults to the bucket of the folder.
+    move?: boolean;
+    ownerId?: string; // The owner of the copies, defaults to the owners of the originals.
+    reservedNames?: Set<string>; // See generateAvailableName, only for the folder itself.
+    createdFileIds?: string[]; // See copySingleFile.
   }) {
-    // [step 1] Copy the folder.
+    // [step 1] Copy the folder and its quota.
     const newFolder = await this.copySingleFile({
       file: params.folder,
       destinationParentId: params.destinationParentId,
+      destinationBucket: params.destinationBucket,
+      move: params.move,
+      ownerId: params.ownerId,
+      reservedNames: params.reservedNames,
+      createdFileIds: params.createdFileIds,
     });
+    await this.quota.copyQuota({folderId: params.folder.id, destinationFolderId: newFolder.id});
 
-    // [step 2] Copy files in the folder.
+    // [step 2] Copy files in the folder. Trashed files are left behind by a copy, and moved along by a move.
+    // A copy also leaves behind the pending and failed uploads, which have no object to copy.
     const filesInFolder = await this.prisma.s3File.findMany({
-      where: {parentId: params.folder.id},
+      where: {
+        parentId: params.folder.id,
+        ...(params.move ? {} : {trashedAt: null, status: S3FileStatus.available}),
+      },
     });
 
     for (let i = 0; i < filesInFolder.length; i++) {
@@ -672,13 +2700,20 @@ export class AwsS3FileService {
         await this.copyFolder({
           folder: file,
           destinationParentId: newFolder.id,
+          move: params.move,
+          ownerId: params.ownerId,
+          createdFileIds: params.createdFileIds,
         });
       } else {
         await this.copySingleFile({
           file: file,
           destinationParentId: newFolder.id,
+          move: params.move,
+          ownerId: params.ownerId,
+          createdFileIds: params.createdFileIds,
         });
       }
     }
+    return newFolder;
   }
 }
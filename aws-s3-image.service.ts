@@ -0,0 +1,171 @@
+import {Inject, Injectable, Logger} from '@nestjs/common';
+import {ConfigService} from '@nestjs/config';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {S3FileVariant} from '@generated/prisma/client';
+import sharp from 'sharp';
+import {AWS_S3_STORAGE_DRIVER, AwsS3StorageDriver} from './aws-s3.driver';
+import {AwsS3CdnService} from './aws-s3-cdn.service';
+
+export const VARIANT_FOLDER_PATH = '_system/variants/'; // Variants are stored under the ID of their original file.
+
+/** An entry of the `imageVariants` setting. */
+export interface AwsS3ImageVariant {
+  name: string; // e.g. 'thumbnail', unique among the variants.
+  width?: number; // At least one of width and height.
+  height?: number;
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside'; // Defaults to 'inside', the aspect ratio is kept.
+  format: 'webp' | 'avif' | 'jpeg' | 'png';
+  quality?: number; // 1 to 100, defaults to the encoder's default.
+}
+
+/**
+ * Generates the `imageVariants` of the uploaded images with sharp, and keeps them along with their original files.
+ * Variants are recorded in S3FileVariant, their objects are stored in the bucket of the original file.
+ */
+@Injectable()
+export class AwsS3ImageService {
+  private readonly logger = new Logger(AwsS3ImageService.name);
+  private variants: AwsS3ImageVariant[];
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    @Inject(AWS_S3_STORAGE_DRIVER) private readonly s3: AwsS3StorageDriver,
+    private readonly cdn: AwsS3CdnService
+  ) {
+    this.variants = this.config.get<AwsS3ImageVariant[]>('microservices.aws-s3.imageVariants') ?? [];
+  }
+
+  /**
+   * Generate the variants of an image file, replacing the ones it already has.
+   * The content is downloaded if `buffer` is not provided.
+   * Files which are not images have no variants, the ones of an image they replaced are deleted.
+   */
+  async generateVariants(params: {fileId: string; buffer?: Buffer}) {
+    const file = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: params.fileId},
+      select: {id: true, type: true, s3Bucket: true, s3Key: true},
+    });
+    if (this.variants.length === 0 || !file.type?.startsWith('image/')) {
+      await this.deleteVariants([file.id]);
+      return [];
+    }
+
+    // [step 1] Get the original image.
+    let buffer = params.buffer;
+    if (!buffer) {
+      const object = await this.s3.getObject({bucket: file.s3Bucket, key: file.s3Key});
+      buffer = Buffer.from(await object.Body!.transformToByteArray());
+    }
+
+    // [step 2] Resize and encode each variant, then upload and record it.
+    const variants: S3FileVariant[] = [];
+    for (const variant of this.variants) {
+      const {data, info} = await sharp(buffer)
+        .rotate() // Apply the EXIF orientation before it is stripped.
+        .resize({width: variant.width, height: variant.height, fit: variant.fit ?? 'inside', withoutEnlargement: true})
+        .toFormat(variant.format, {quality: variant.quality})
+        .toBuffer({resolveWithObject: true});
+
+      const s3Key = `${VARIANT_FOLDER_PATH}${file.id}/${variant.name}.${variant.format}`;
+      const type = `image/${variant.format}`;
+      await this.s3.putObject({bucket: file.s3Bucket, key: s3Key, body: data, contentType: type});
+
+      const record = {s3Bucket: file.s3Bucket, s3Key, type, width: info.width, height: info.height, size: info.size};
+      variants.push(
+        await this.prisma.s3FileVariant.upsert({
+          where: {fileId_name: {fileId: file.id, name: variant.name}},
+          create: {fileId: file.id, name: variant.name, ...record},
+          update: record,
+        })
+      );
+    }
+
+    // [step 3] Delete the variants which are no longer in the setting.
+    const staleVariants = await this.prisma.s3FileVariant.findMany({
+      where: {fileId: file.id, name: {notIn: this.variants.map(({name}) => name)}},
+      select: {id: true, s3Bucket: true, s3Key: true},
+    });
+    for (const variant of staleVariants) {
+      await this.s3.deleteObject({bucket: variant.s3Bucket, key: variant.s3Key});
+      await this.prisma.s3FileVariant.delete({where: {id: variant.id}});
+    }
+
+    return variants;
+  }
+
+  /** Like generateVariants, but a failure is only logged so that it never fails the upload. */
+  async tryGenerateVariants(params: {fileId: string; buffer?: Buffer}) {
+    try {
+      return await this.generateVariants(params);
+    } catch (error) {
+      this.logger.error(`Failed to generate the image variants of file ${params.fileId}.`, error);
+      return [];
+    }
+  }
+
+  async listVariants(fileId: string) {
+    return await this.prisma.s3FileVariant.findMany({
+      where: {fileId},
+      orderBy: {name: 'asc'},
+    });
+  }
+
+  async getSignedVariantUrl(params: {fileId: string; name: string; ipAddress?: string}) {
+    const variant = await this.prisma.s3FileVariant.findUniqueOrThrow({
+      where: {fileId_name: {fileId: params.fileId, name: params.name}},
+      select: {s3Bucket: true, s3Key: true},
+    });
+
+    return await this.cdn.getDownloadUrl({file: variant, ipAddress: params.ipAddress});
+  }
+
+  /** Copy the variants of a file to its copy, which may be in another bucket. */
+  async copyVariants(params: {fileId: string; destinationFileId: string; destinationBucket: string}) {
+    const variants = await this.prisma.s3FileVariant.findMany({
+      where: {fileId: params.fileId},
+    });
+
+    for (const variant of variants) {
+      const s3Key = variant.s3Key.replace(`/${params.fileId}/`, `/${params.destinationFileId}/`);
+      await this.s3.copyObject({
+        bucket: variant.s3Bucket,
+        sourceKey: variant.s3Key,
+        destinationKey: s3Key,
+        destinationBucket: params.destinationBucket,
+      });
+      await this.prisma.s3FileVariant.create({
+        data: {
+          fileId: params.destinationFileId,
+          name: variant.name,
+          s3Bucket: params.destinationBucket,
+          s3Key,
+          type: variant.type,
+          width: variant.width,
+          height: variant.height,
+          size: variant.size,
+        },
+      });
+    }
+  }
+
+  /** Delete the variants of the files in AWS S3, a DeleteObjects request per bucket, then delete the records. */
+  async deleteVariants(fileIds: string[]) {
+    const variants = await this.prisma.s3FileVariant.findMany({
+      where: {fileId: {in: fileIds}},
+      select: {s3Bucket: true, s3Key: true},
+    });
+
+    const keysByBucket = new Map<string, {key: string}[]>();
+    for (const variant of variants) {
+      keysByBucket.set(variant.s3Bucket, [...(keysByBucket.get(variant.s3Bucket) ?? []), {key: variant.s3Key}]);
+    }
+    for (const [bucket, objects] of keysByBucket) {
+      const [error] = await this.s3.deleteObjects({bucket, objects});
+      if (error) {
+        throw new Error(`Failed to delete the variant '${error.key}': ${error.message}`);
+      }
+    }
+    await this.prisma.s3FileVariant.deleteMany({where: {fileId: {in: fileIds}}});
+  }
+}
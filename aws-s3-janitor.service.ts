@@ -0,0 +1,175 @@
+import {Inject, Injectable, Logger, OnModuleDestroy, OnModuleInit} from '@nestjs/common';
+import {ConfigService} from '@nestjs/config';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {S3FileStatus} from '@generated/prisma/client';
+import {S3ServiceException} from '@aws-sdk/client-s3';
+import {AWS_S3_STORAGE_DRIVER, AwsS3StorageDriver} from './aws-s3.driver';
+import {AwsS3FileService} from './aws-s3-file.service';
+
+/**
+ * Cleans up what unfinished uploads leave behind:
+ * - multipart uploads older than `pendingUploadMaxAgeHours`, which keep billable parts in S3,
+ * - their S3File rows, stuck with uploadProgress < 100,
+ * - S3File rows created by getSignedUploadUrl whose object was never uploaded, or whose upload failed.
+ *   The ones uploaded but never confirmed are confirmed instead.
+ * The rows are deleted with their objects, permissions and share links, see AwsS3FileService.deleteFileAndObjects.
+ * It also purges the files which have been in the trash for more than `trashRetentionDays`.
+ * It runs every `janitorIntervalMinutes` (0 disables the schedule), and can be run manually.
+ */
+@Injectable()
+export class AwsS3JanitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AwsS3JanitorService.name);
+  private bucket: string;
+  private pendingUploadMaxAgeHours: number;
+  private trashRetentionDays: number;
+  private janitorIntervalMinutes: number;
+  private timer: NodeJS.Timeout | undefined;
+  private running: ReturnType<AwsS3JanitorService['cleanup']> | undefined;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly prisma: PrismaService,
+    @Inject(AWS_S3_STORAGE_DRIVER) private readonly s3: AwsS3StorageDriver,
+    private readonly s3File: AwsS3FileService
+  ) {
+    this.bucket = this.config.getOrThrow<string>('microservices.aws-s3.bucket');
+    this.pendingUploadMaxAgeHours = this.config.getOrThrow<number>('microservices.aws-s3.pendingUploadMaxAgeHours');
+    this.trashRetentionDays = this.config.getOrThrow<number>('microservices.aws-s3.trashRetentionDays');
+    this.janitorIntervalMinutes = this.config.getOrThrow<number>('microservices.aws-s3.janitorIntervalMinutes');
+  }
+
+  onModuleInit() {
+    if (this.janitorIntervalMinutes > 0) {
+      this.timer = setInterval(() => {
+        this.run().catch(error => this.logger.error('Failed to clean up pending uploads.', error));
+      }, this.janitorIntervalMinutes * 60 * 1000);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /** Run the cleanup, or join the one in progress. */
+  async run() {
+    if (!this.running) {
+      this.running = this.cleanup().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return await this.running;
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private async cleanup() {
+    const cutoff = new Date(Date.now() - this.pendingUploadMaxAgeHours * 60 * 60 * 1000);
+    const abortedUploads: {bucket: string; s3Key: string; uploadId: string; initiated: Date}[] = [];
+    const deletedFiles: {id: string; s3Bucket: string; s3Key: string; reason: 'multipart' | 'signed-upload'}[] = [];
+    const confirmedFiles: {id: string; s3Bucket: string; s3Key: string}[] = [];
+    const purgedFiles: {id: string; s3Bucket: string; s3Key: string; trashedAt: Date}[] = [];
+
+    const buckets = await this.prisma.s3Bucket.findMany({select: {name: true}});
+    for (const bucket of new Set([this.bucket, ...buckets.map(({name}) => name)])) {
+      // [step 1] Abort the multipart uploads initiated before the cutoff.
+      const uploads = await this.s3.listMultipartUploads({bucket});
+      const activeUploadIds = new Set<string>();
+      for (const upload of uploads) {
+        if (upload.Initiated >= cutoff) {
+          activeUploadIds.add(upload.UploadId);
+          continue;
+        }
+
+        await this.s3.abortMultipartUpload({bucket, key: upload.Key, uploadId: upload.UploadId});
+        abortedUploads.push({bucket, s3Key: upload.Key, uploadId: upload.UploadId, initiated: upload.Initiated});
+      }
+
+      // [step 2] Delete the rows of the unfinished multipart uploads which are no longer in progress in S3.
+      const multipartFiles = await this.prisma.s3File.findMany({
+        where: {
+          s3Bucket: bucket,
+          uploadId: {not: null},
+          uploadProgress: {lt: 100},
+          createdAt: {lt: cutoff},
+        },
+        select: {id: true, s3Key: true, uploadId: true},
+      });
+      for (const file of multipartFiles) {
+        if (activeUploadIds.has(file.uploadId!)) {
+          continue;
+        }
+
+        // The upload parts, permissions and share links are deleted with the file.
+        await this.s3File.deleteFileAndObjects(file.id);
+        deletedFiles.push({id: file.id, s3Bucket: bucket, s3Key: file.s3Key, reason: 'multipart'});
+      }
+
+      // [step 3] Delete the rows of the signed uploads which never happened or failed.
+      const signedUploadFiles = await this.prisma.s3File.findMany({
+        where: {
+          s3Bucket: bucket,
+          uploadId: null,
+          status: {in: [S3FileStatus.pending, S3FileStatus.failed]},
+          createdAt: {lt: cutoff},
+        },
+        select: {id: true, s3Key: true, status: true},
+      });
+      for (const file of signedUploadFiles) {
+        if (file.status === S3FileStatus.pending && (await this.objectExists(bucket, file.s3Key))) {
+          // An object exceeding the quotas fails the file, which the next run deletes.
+          try {
+            await this.s3File.confirmUpload(file.id);
+          } catch (error) {
+            this.logger.error(`Failed to confirm file ${file.id}.`, error);
+            continue;
+          }
+          confirmedFiles.push({id: file.id, s3Bucket: bucket, s3Key: file.s3Key});
+          continue;
+        }
+
+        await this.s3File.deleteFileAndObjects(file.id);
+        deletedFiles.push({id: file.id, s3Bucket: bucket, s3Key: file.s3Key, reason: 'signed-upload'});
+      }
+    }
+
+    // [step 4] Purge the files trashed before the retention period, one at a time: a failure does not stop the run.
+    // A file trashed before its folder is already gone once the folder is purged.
+    const trashedFiles = await this.prisma.s3File.findMany({
+      where: {
+        trashedFrom: {not: null},
+        trashedAt: {lt: new Date(Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000)},
+      },
+      select: {id: true, s3Bucket: true, s3Key: true, trashedAt: true},
+    });
+    for (const file of trashedFiles) {
+      const exists = await this.prisma.s3File.findFirst({where: {id: file.id}, select: {id: true}});
+      if (!exists) {
+        continue;
+      }
+      try {
+        await this.s3File.purgeFile(file.id);
+      } catch (error) {
+        this.logger.error(`Failed to purge file ${file.id}.`, error);
+        continue;
+      }
+      purgedFiles.push({id: file.id, s3Bucket: file.s3Bucket, s3Key: file.s3Key, trashedAt: file.trashedAt!});
+    }
+
+    return {cutoff, abortedUploads, deletedFiles, confirmedFiles, purgedFiles};
+  }
+
+  private async objectExists(bucket: string, key: string) {
+    try {
+      await this.s3.headObject({bucket, key});
+      return true;
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import {ConfigService} from '@nestjs/config';
+import {createHash} from 'crypto';
+import {createReadStream} from 'fs';
+import {mkdir, readdir, readFile, rm, rmdir, writeFile} from 'fs/promises';
+import {join, resolve} from 'path';
+import {pathToFileURL} from 'url';
+import {AwsS3EmulatedDriver, EmulatedObject} from './aws-s3-emulated.driver';
+
+/**
+ * Stores objects on the local filesystem, one directory per bucket:
+ * - <localRoot>/<bucket>/data/<sha256 of key>        the object bytes
+ * - <localRoot>/<bucket>/meta/<sha256 of key>.json   the object record, including the key
+ * Keys are hashed because S3 keys can be longer than a file name and may contain '..' or trailing slashes.
+ */
+export class AwsS3LocalDriver extends AwsS3EmulatedDriver {
+  private root: string;
+
+  constructor(config: ConfigService) {
+    super(config);
+    this.root = resolve(this.config.get<string>('microservices.aws-s3.localRoot') || '.aws-s3');
+  }
+
+  protected async createBucketStorage(bucket: string) {
+    if (await this.bucketExists(bucket)) {
+      throw this.serviceException('BucketAlreadyOwnedByYou', 'The bucket already exists.');
+    }
+    await mkdir(join(this.root, bucket, 'data'), {recursive: true});
+    await mkdir(join(this.root, bucket, 'meta'), {recursive: true});
+  }
+
+  protected async deleteBucketStorage(bucket: string) {
+    if (!(await this.bucketExists(bucket))) {
+      return false;
+    }
+    if ((await readdir(join(this.root, bucket, 'meta'))).length > 0) {
+      throw this.serviceException('BucketNotEmpty', 'The bucket you tried to delete is not empty.');
+    }
+    await rmdir(join(this.root, bucket, 'data'));
+    await rmdir(join(this.root, bucket, 'meta'));
+    await rmdir(join(this.root, bucket));
+    return true;
+  }
+
+  protected async readObject(bucket: string, key: string) {
+    try {
+      return this.parseObject(await readFile(this.metaPath(bucket, key), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  protected async readObjectBody(bucket: string, key: string, range?: {start: number; end: number}) {
+    return createReadStream(this.dataPath(bucket, key), range);
+  }
+
+  protected async writeObject(bucket: string, object: EmulatedObject, body: Buffer) {
+    await mkdir(join(this.root, bucket, 'data'), {recursive: true});
+    await mkdir(join(this.root, bucket, 'meta'), {recursive: true});
+
+    // Write the bytes first so that a listed object always has its data.
+    await writeFile(this.dataPath(bucket, object.key), body);
+    await writeFile(this.metaPath(bucket, object.key), JSON.stringify(object));
+  }
+
+  protected async removeObject(bucket: string, key: string) {
+    await rm(this.metaPath(bucket, key), {force: true});
+    await rm(this.dataPath(bucket, key), {force: true});
+  }
+
+  protected async listObjects(bucket: string, prefix?: string) {
+    if (!(await this.bucketExists(bucket))) {
+      return [];
+    }
+
+    const objects: EmulatedObject[] = [];
+    for (const fileName of await readdir(join(this.root, bucket, 'meta'))) {
+      const object = this.parseObject(await readFile(join(this.root, bucket, 'meta', fileName), 'utf8'));
+      if (!prefix || object.key.startsWith(prefix)) {
+        objects.push(object);
+      }
+    }
+    return objects;
+  }
+
+  protected getObjectUrl(bucket: string, key: string) {
+    return pathToFileURL(this.dataPath(bucket, key)).href;
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  private async bucketExists(bucket: string) {
+    try {
+      await readdir(join(this.root, bucket, 'meta'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private fileName(key: string) {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private dataPath(bucket: string, key: string) {
+    return join(this.root, bucket, 'data', this.fileName(key));
+  }
+
+  private metaPath(bucket: string, key: string) {
+    return join(this.root, bucket, 'meta', `${this.fileName(key)}.json`);
+  }
+
+  private parseObject(json: string): EmulatedObject {
+    const object = JSON.parse(json);
+    return {...object, lastModified: new Date(object.lastModified)};
+  }
+}
@@ -0,0 +1,61 @@
+import {Readable} from 'stream';
+import {AwsS3EmulatedDriver, EmulatedObject} from './aws-s3-emulated.driver';
+
+/** Keeps buckets and objects in process memory. Everything is lost on restart. */
+export class AwsS3MemoryDriver extends AwsS3EmulatedDriver {
+  private buckets = new Map<string, Map<string, {object: EmulatedObject; body: Buffer}>>();
+
+  protected async createBucketStorage(bucket: string) {
+    if (this.buckets.has(bucket)) {
+      throw this.serviceException('BucketAlreadyOwnedByYou', 'The bucket already exists.');
+    }
+    this.buckets.set(bucket, new Map());
+  }
+
+  protected async deleteBucketStorage(bucket: string) {
+    const objects = this.buckets.get(bucket);
+    if (!objects) {
+      return false;
+    }
+    if (objects.size > 0) {
+      throw this.serviceException('BucketNotEmpty', 'The bucket you tried to delete is not empty.');
+    }
+    return this.buckets.delete(bucket);
+  }
+
+  protected async readObject(bucket: string, key: string) {
+    return this.buckets.get(bucket)?.get(key)?.object;
+  }
+
+  protected async readObjectBody(bucket: string, key: string, range?: {start: number; end: number}) {
+    const body = this.buckets.get(bucket)?.get(key)?.body ?? Buffer.alloc(0);
+    return Readable.from([range ? body.subarray(range.start, range.end + 1) : body]);
+  }
+
+  protected async writeObject(bucket: string, object: EmulatedObject, body: Buffer) {
+    let objects = this.buckets.get(bucket);
+    if (!objects) {
+      objects = new Map();
+      this.buckets.set(bucket, objects);
+    }
+    objects.set(object.key, {object, body});
+  }
+
+  protected async removeObject(bucket: string, key: string) {
+    this.buckets.get(bucket)?.delete(key);
+  }
+
+  protected async listObjects(bucket: string, prefix?: string) {
+    const objects: EmulatedObject[] = [];
+    for (const {object} of this.buckets.get(bucket)?.values() ?? []) {
+      if (!prefix || object.key.startsWith(prefix)) {
+        objects.push(object);
+      }
+    }
+    return objects;
+  }
+
+  protected getObjectUrl(bucket: string, key: string) {
+    return `memory://${bucket}/${encodeURI(key)}`;
+  }
+}
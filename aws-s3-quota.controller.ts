@@ -0,0 +1,55 @@
+import {Get, Put, Body, Param, Query, Delete, UseGuards, Controller} from '@nestjs/common';
+import {ApiTags, ApiResponse, ApiOperation, ApiBearerAuth} from '@nestjs/swagger';
+import {FolderUsageEntity, ListUsageRequestDto, SetQuotaRequestDto} from './aws-s3-quota.dto';
+import {AwsS3FileService} from './aws-s3-file.service';
+import {AwsS3QuotaService} from './aws-s3-quota.service';
+import {AwsS3AccessGuard, RequireAccess} from './aws-s3-access.guard';
+
+@ApiTags('AWS / S3')
+@ApiBearerAuth()
+@UseGuards(AwsS3AccessGuard)
+@Controller('aws-s3/quotas')
+export class AwsS3QuotaController {
+  constructor(
+    private readonly s3File: AwsS3FileService,
+    private readonly quota: AwsS3QuotaService
+  ) {}
+
+  @Get('')
+  @RequireAccess({permission: 'admin'})
+  @ApiOperation({summary: 'List the usage of the folders with a quota'})
+  @ApiResponse({type: FolderUsageEntity, isArray: true})
+  async listUsage(@Query() query: ListUsageRequestDto) {
+    return await this.quota.listUsage(await this.s3File.resolveBucket(query.bucket));
+  }
+
+  @Get(':folderId/usage')
+  @RequireAccess({permission: 'read', fileId: 'param.folderId'})
+  @ApiOperation({
+    summary: 'Get the usage of a folder',
+    description: 'Any folder has a usage, `maxBytes` and `maxFiles` are null if it has no quota.',
+  })
+  @ApiResponse({type: FolderUsageEntity})
+  async getUsage(@Param('folderId') folderId: string) {
+    return await this.quota.getUsage(folderId);
+  }
+
+  @Put(':folderId')
+  @RequireAccess({permission: 'admin'})
+  @ApiOperation({
+    summary: 'Set the quota of a folder',
+    description: 'Uploads into the folder and its subfolders fail once the quota would be exceeded.',
+  })
+  @ApiResponse({type: FolderUsageEntity})
+  async setQuota(@Param('folderId') folderId: string, @Body() body: SetQuotaRequestDto) {
+    return await this.quota.setQuota({folderId, maxBytes: body.maxBytes, maxFiles: body.maxFiles});
+  }
+
+  @Delete(':folderId')
+  @RequireAccess({permission: 'admin'})
+  async deleteQuota(@Param('folderId') folderId: string) {
+    return await this.quota.deleteQuota(folderId);
+  }
+
+  /* End */
+}
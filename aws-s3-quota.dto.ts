@@ -0,0 +1,55 @@
+import {ApiProperty} from '@nestjs/swagger';
+import {IsInt, IsOptional, IsString, Min} from 'class-validator';
+
+export class FolderUsageEntity {
+  @ApiProperty({type: String})
+  folderId: string;
+
+  @ApiProperty({type: String})
+  name: string;
+
+  @ApiProperty({type: Number, description: 'The files in the folder and its subfolders, pending uploads included.'})
+  fileCount: number;
+
+  @ApiProperty({type: Number, description: 'The size of these files in bytes.'})
+  totalSize: number;
+
+  @ApiProperty({type: Number, nullable: true, description: 'null if the bytes are not limited.'})
+  maxBytes: number | null;
+
+  @ApiProperty({type: Number, nullable: true, description: 'null if the file count is not limited.'})
+  maxFiles: number | null;
+}
+
+export class SetQuotaRequestDto {
+  @ApiProperty({
+    type: Number,
+    required: false,
+    description: 'The bytes the folder can hold, unlimited if not provided.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxBytes?: number;
+
+  @ApiProperty({
+    type: Number,
+    required: false,
+    description: 'The files the folder can hold, unlimited if not provided.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxFiles?: number;
+}
+
+export class ListUsageRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'The bucket of the folders, defaults to the configured bucket.',
+  })
+  @IsOptional()
+  @IsString()
+  bucket?: string;
+}
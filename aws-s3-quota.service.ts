@@ -0,0 +1,243 @@
+import {Injectable} from '@nestjs/common';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {Prisma} from '@generated/prisma/client';
+
+const QUOTA_LOCK_TIMEOUT = 60 * 1000; // Objects may be uploaded while a quota lock is held.
+
+/**
+ * Limits the bytes and the number of files a folder can hold, subfolders included.
+ * Usage is computed from the records of the subtree, so it stays correct across move, delete and overwrite.
+ * Trashed files and failed uploads do not count, pending uploads do, with their declared size.
+ * Uploads check the quotas and record their files under a lock, see withQuotaLock.
+ */
+@Injectable()
+export class AwsS3QuotaService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async setQuota(params: {folderId: string; maxBytes?: number | null; maxFiles?: number | null}) {
+    await this.prisma.s3File.findFirstOrThrow({
+      where: {id: params.folderId, type: 'folder', trashedAt: null},
+      select: {id: true},
+    });
+
+    const data = {
+      maxBytes: typeof params.maxBytes === 'number' ? BigInt(params.maxBytes) : null,
+      maxFiles: params.maxFiles ?? null,
+    };
+    await this.prisma.s3FolderQuota.upsert({
+      where: {folderId: params.folderId},
+      create: {folderId: params.folderId, ...data},
+      update: data,
+    });
+    return await this.getUsage(params.folderId);
+  }
+
+  async deleteQuota(folderId: string) {
+    await this.prisma.s3FolderQuota.delete({where: {folderId}});
+  }
+
+  /** The usage of a folder, along with its quota if it has one. */
+  async getUsage(folderId: string) {
+    const folder = await this.prisma.s3File.findFirstOrThrow({
+      where: {id: folderId, type: 'folder'},
+      select: {id: true, name: true},
+    });
+    const quota = await this.prisma.s3FolderQuota.findUnique({where: {folderId}});
+
+    return {
+      folderId: folder.id,
+      name: folder.name,
+      ...(await this.getSubtreeUsage(folder.id)),
+      maxBytes: quota && quota.maxBytes !== null ? Number(quota.maxBytes) : null, // BigInt is not serializable.
+      maxFiles: quota?.maxFiles ?? null,
+    };
+  }
+
+  /** The usage of all the folders with a quota in a bucket. */
+  async listUsage(bucket: string) {
+    const folders = await this.prisma.s3File.findMany({
+      where: {s3Bucket: bucket, type: 'folder', trashedAt: null},
+      select: {id: true},
+    });
+    const quotas = await this.prisma.s3FolderQuota.findMany({
+      where: {folderId: {in: folders.map(({id}) => id)}},
+      select: {folderId: true},
+    });
+
+    const usages: Awaited<ReturnType<AwsS3QuotaService['getUsage']>>[] = [];
+    for (const quota of quotas) {
+      usages.push(await this.getUsage(quota.folderId));
+    }
+    return usages;
+  }
+
+  /** Throw if adding `bytes` and `files` to a folder exceeds its quota, or the quota of any folder above it. */
+  async checkQuota(params: {parentId?: string | null; bytes: number; files: number}) {
+    const error = await this.findExceededQuota(params);
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /**
+   * Run `fn` holding a transaction-scoped advisory lock on each folder with a quota above `parentId`,
+   * so that concurrent uploads check the quotas one after the other, each counting the files the others recorded.
+   * `fn` checks the quotas and records the files with `tx`, the locks are released once they are committed.
+   */
+  async withQuotaLock<T>(parentId: string | null | undefined, fn: (tx: Prisma.TransactionClient) => Promise<T>) {
+    const quotas = parentId
+      ? await this.prisma.s3FolderQuota.findMany({
+          where: {folderId: {in: await this.getAncestorIds(parentId)}},
+          select: {folderId: true},
+        })
+      : [];
+    if (quotas.length === 0) {
+      return await fn(this.prisma);
+    }
+
+    return await this.prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        // The locks are taken in the same order by everyone, two uploads cannot wait for each other.
+        for (const folderId of quotas.map(quota => quota.folderId).sort()) {
+          await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${'quota/' + folderId}))`;
+        }
+        return await fn(tx);
+      },
+      {timeout: QUOTA_LOCK_TIMEOUT}
+    );
+  }
+
+  /** Throw if moving a file or folder exceeds a quota. The quotas it already counts in are not affected. */
+  async checkMove(params: {
+    file: {id: string; type: string | null; size: number | null; parentId: string | null};
+    destinationParentId?: string | null;
+  }) {
+    const usage = await this.getFileUsage(params.file);
+    const error = await this.findExceededQuota({
+      parentId: params.destinationParentId,
+      bytes: usage.totalSize,
+      files: usage.fileCount,
+      sourceParentId: params.file.parentId,
+    });
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  /** Throw if copying a file or folder exceeds a quota, the copy counts in all the quotas above the destination. */
+  async checkCopy(params: {
+    file: {id: string; type: string | null; size: number | null};
+    destinationParentId?: string | null;
+  }) {
+    const usage = await this.getFileUsage(params.file);
+    await this.checkQuota({parentId: params.destinationParentId, bytes: usage.totalSize, files: usage.fileCount});
+  }
+
+  /** Throw if restoring a trashed file or folder exceeds a quota, along with the files trashed with it. */
+  async checkRestore(params: {
+    file: {id: string; type: string | null; size: number | null; trashedAt: Date | null};
+    parentId?: string | null;
+  }) {
+    const usage =
+      params.file.type === 'folder'
+        ? await this.getSubtreeUsage(params.file.id, params.file.trashedAt)
+        : {fileCount: 1, totalSize: params.file.size ?? 0};
+    await this.checkQuota({parentId: params.parentId, bytes: usage.totalSize, files: usage.fileCount});
+  }
+
+  /** A copied or moved folder keeps its quota. */
+  async copyQuota(params: {folderId: string; destinationFolderId: string}) {
+    const quota = await this.prisma.s3FolderQuota.findUnique({where: {folderId: params.folderId}});
+    if (quota) {
+      await this.prisma.s3FolderQuota.create({
+        data: {folderId: params.destinationFolderId, maxBytes: quota.maxBytes, maxFiles: quota.maxFiles},
+      });
+    }
+  }
+
+  async deleteQuotas(folderIds: string[]) {
+    await this.prisma.s3FolderQuota.deleteMany({where: {folderId: {in: folderIds}}});
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  /** The error message of the first quota exceeded, ignoring the quotas above `sourceParentId`. */
+  private async findExceededQuota(params: {
+    parentId?: string | null;
+    bytes: number;
+    files: number;
+    sourceParentId?: string | null;
+  }) {
+    if (!params.parentId || (params.bytes <= 0 && params.files <= 0)) {
+      return undefined;
+    }
+
+    // [step 1] Get the quotas of the folder and of the folders above it.
+    const ancestorIds = await this.getAncestorIds(params.parentId);
+    const sourceAncestorIds = new Set(params.sourceParentId ? await this.getAncestorIds(params.sourceParentId) : []);
+    const quotas = await this.prisma.s3FolderQuota.findMany({
+      where: {folderId: {in: ancestorIds.filter(id => !sourceAncestorIds.has(id))}},
+    });
+
+    // [step 2] Check them against the usage of their subtrees.
+    for (const quota of quotas) {
+      const usage = await this.getSubtreeUsage(quota.folderId);
+      const exceeded =
+        (quota.maxBytes !== null && usage.totalSize + params.bytes > Number(quota.maxBytes)) ||
+        (quota.maxFiles !== null && usage.fileCount + params.files > quota.maxFiles);
+      if (exceeded) {
+        const folder = await this.prisma.s3File.findFirst({where: {id: quota.folderId}, select: {name: true}});
+        return (
+          `The quota of folder '${folder?.name}' is exceeded: ` +
+          `${usage.totalSize + params.bytes} of ${quota.maxBytes ?? 'unlimited'} bytes, ` +
+          `${usage.fileCount + params.files} of ${quota.maxFiles ?? 'unlimited'} files.`
+        );
+      }
+    }
+    return undefined;
+  }
+
+  /** The folder and the folders above it, up to the root. */
+  private async getAncestorIds(folderId: string) {
+    const ancestorIds: string[] = [];
+
+    let parentId: string | null = folderId;
+    while (parentId) {
+      ancestorIds.push(parentId);
+      const folder: {parentId: string | null} = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: parentId},
+        select: {parentId: true},
+      });
+      parentId = folder.parentId;
+    }
+
+    return ancestorIds;
+  }
+
+  private async getFileUsage(file: {id: string; type: string | null; size: number | null}) {
+    return file.type === 'folder' ? await this.getSubtreeUsage(file.id) : {fileCount: 1, totalSize: file.size ?? 0};
+  }
+
+  /** A single recursive query over the subtree. With `trashedAt`, the usage of the files trashed at that time. */
+  private async getSubtreeUsage(folderId: string, trashedAt: Date | null = null) {
+    const [usage] = await this.prisma.$queryRaw<{fileCount: bigint; totalSize: bigint}[]>`
+      WITH RECURSIVE subtree AS (
+        SELECT id, type, size FROM "microservice/aws-s3"."S3File"
+        WHERE "parentId" = ${folderId}::uuid
+          AND "trashedAt" IS NOT DISTINCT FROM ${trashedAt}::timestamp(3)
+          AND status <> 'failed'
+        UNION ALL
+        SELECT child.id, child.type, child.size FROM "microservice/aws-s3"."S3File" child
+        JOIN subtree ON child."parentId" = subtree.id AND subtree.type = 'folder'
+        WHERE child."trashedAt" IS NOT DISTINCT FROM ${trashedAt}::timestamp(3)
+          AND child.status <> 'failed'
+      )
+      SELECT COUNT(*) AS "fileCount", COALESCE(SUM(size), 0) AS "totalSize"
+      FROM subtree WHERE type IS DISTINCT FROM 'folder'
+    `;
+
+    return {fileCount: Number(usage.fileCount), totalSize: Number(usage.totalSize)}; // BigInt is not serializable.
+  }
+}
@@ -0,0 +1,47 @@
+import {Get, Body, Post, Param, Delete, UseGuards, Controller} from '@nestjs/common';
+import {ApiTags, ApiResponse, ApiOperation, ApiBearerAuth} from '@nestjs/swagger';
+import {CreateShareLinkRequestDto, ShareLinkEntity} from './aws-s3-share.dto';
+import {AwsS3ShareService} from './aws-s3-share.service';
+import {AwsS3Principal} from './aws-s3-access.service';
+import {AccessPrincipal, AwsS3AccessGuard, RequireAccess} from './aws-s3-access.guard';
+
+@ApiTags('AWS / S3')
+@ApiBearerAuth()
+@UseGuards(AwsS3AccessGuard)
+@Controller('aws-s3/shares')
+export class AwsS3ShareController {
+  constructor(private readonly share: AwsS3ShareService) {}
+
+  @Get(':fileId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({summary: 'List the share links of a file or folder', description: 'Revoked links are listed too.'})
+  @ApiResponse({type: ShareLinkEntity, isArray: true})
+  async listShareLinks(@Param('fileId') fileId: string) {
+    return await this.share.listShareLinks(fileId);
+  }
+
+  @Post(':fileId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({
+    summary: 'Share a file or folder with a link',
+    description: 'Anyone with the token can download it until the link expires, runs out of downloads or is revoked.',
+  })
+  @ApiResponse({type: ShareLinkEntity})
+  async createShareLink(
+    @Param('fileId') fileId: string,
+    @Body() body: CreateShareLinkRequestDto,
+    @AccessPrincipal() principal: AwsS3Principal
+  ) {
+    return await this.share.createShareLink({fileId, ...body, createdBy: principal.userId});
+  }
+
+  @Delete(':fileId/:shareId')
+  @RequireAccess({permission: 'manage', fileId: 'param.fileId'})
+  @ApiOperation({summary: 'Revoke a share link'})
+  @ApiResponse({type: ShareLinkEntity})
+  async revokeShareLink(@Param('fileId') fileId: string, @Param('shareId') shareId: string) {
+    return await this.share.revokeShareLink({fileId, shareId});
+  }
+
+  /* End */
+}
@@ -0,0 +1,113 @@
+import {ApiProperty} from '@nestjs/swagger';
+import {IsDate, IsInt, IsOptional, IsString, Min, MinLength} from 'class-validator';
+import {Type} from 'class-transformer';
+import {CommonListRequestDto, CommonListResponseDto} from '@framework/common.dto';
+
+export class ShareLinkEntity {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String, description: 'The shared file or folder.'})
+  fileId: string;
+
+  @ApiProperty({type: String, description: 'The token to pass to the public routes under aws-s3/shared.'})
+  token: string;
+
+  @ApiProperty({type: Boolean})
+  hasPassword: boolean;
+
+  @ApiProperty({type: String, nullable: true})
+  expiresAt: string | null;
+
+  @ApiProperty({type: Number, nullable: true, description: 'null if the downloads are not limited.'})
+  maxDownloads: number | null;
+
+  @ApiProperty({type: Number})
+  downloadCount: number;
+
+  @ApiProperty({type: Number, description: 'The requests resolving the token, downloads included.'})
+  accessCount: number;
+
+  @ApiProperty({type: String, nullable: true})
+  lastAccessedAt: string | null;
+
+  @ApiProperty({type: String, nullable: true})
+  revokedAt: string | null;
+
+  @ApiProperty({type: String, nullable: true, description: 'The user who created the link.'})
+  createdBy: string | null;
+
+  @ApiProperty({type: String})
+  createdAt: string;
+
+  @ApiProperty({type: String})
+  updatedAt: string;
+}
+
+export class CreateShareLinkRequestDto {
+  @ApiProperty({type: String, required: false, description: 'The link never expires if not provided.'})
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expiresAt?: Date;
+
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'Required to open the link, in the x-share-password request header.',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(4)
+  password?: string;
+
+  @ApiProperty({type: Number, required: false, description: 'The downloads are not limited if not provided.'})
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxDownloads?: number;
+}
+
+export class SharedFileEntity {
+  @ApiProperty({type: String})
+  id: string;
+
+  @ApiProperty({type: String})
+  name: string;
+
+  @ApiProperty({type: String, description: "could be 'folder'"})
+  type: string;
+
+  @ApiProperty({type: Number, nullable: true, description: 'The size of the file in bytes, null for folders.'})
+  size: number | null;
+
+  @ApiProperty({type: String})
+  updatedAt: string;
+}
+
+export class SharedLinkResponseDto {
+  @ApiProperty({type: SharedFileEntity})
+  file: SharedFileEntity;
+
+  @ApiProperty({type: String, nullable: true})
+  expiresAt: string | null;
+
+  @ApiProperty({type: Number, nullable: true, description: 'null if the downloads are not limited.'})
+  remainingDownloads: number | null;
+}
+
+export class ListSharedFilesRequestDto extends CommonListRequestDto {
+  @ApiProperty({
+    type: String,
+    required: false,
+    description: 'A folder under the shared folder, defaults to the shared folder.',
+  })
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+}
+
+export class ListSharedFilesResponseDto extends CommonListResponseDto {
+  @ApiProperty({type: SharedFileEntity, isArray: true})
+  declare records: SharedFileEntity[];
+}
@@ -0,0 +1,180 @@
+import {GoneException, Injectable, NotFoundException, UnauthorizedException} from '@nestjs/common';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {S3FileStatus, S3ShareLink} from '@generated/prisma/client';
+import {randomBytes, scrypt, timingSafeEqual} from 'crypto';
+import {promisify} from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+/**
+ * Shares a file or folder with anyone holding the token of a link, unlike presigned URLs links can be revoked.
+ * A link can expire, require a password and limit its downloads. A folder link shares everything under it.
+ * Every request resolving a token counts as an access, downloads are counted on their own.
+ * Links follow their files when moved, and are deleted with them.
+ */
+@Injectable()
+export class AwsS3ShareService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async createShareLink(params: {
+    fileId: string;
+    expiresAt?: Date;
+    password?: string;
+    maxDownloads?: number;
+    createdBy?: string;
+  }) {
+    await this.prisma.s3File.findFirstOrThrow({
+      where: {id: params.fileId, trashedAt: null},
+      select: {id: true},
+    });
+
+    const link = await this.prisma.s3ShareLink.create({
+      data: {
+        fileId: params.fileId,
+        token: randomBytes(24).toString('base64url'),
+        passwordHash: params.password ? await this.hashPassword(params.password) : null,
+        expiresAt: params.expiresAt,
+        maxDownloads: params.maxDownloads,
+        createdBy: params.createdBy,
+      },
+    });
+    return this.toShareLink(link);
+  }
+
+  async listShareLinks(fileId: string) {
+    const links = await this.prisma.s3ShareLink.findMany({
+      where: {fileId},
+      orderBy: {createdAt: 'desc'},
+    });
+    return links.map(link => this.toShareLink(link));
+  }
+
+  /** The link stops working at once, it is kept with its counts. */
+  async revokeShareLink(params: {fileId: string; shareId: string}) {
+    await this.prisma.s3ShareLink.findFirstOrThrow({
+      where: {id: params.shareId, fileId: params.fileId},
+      select: {id: true},
+    });
+    const link = await this.prisma.s3ShareLink.update({
+      where: {id: params.shareId},
+      data: {revokedAt: new Date()},
+    });
+    return this.toShareLink(link);
+  }
+
+  /**
+   * Resolve a token to its link and count the access.
+   * Throws NotFoundException if the link does not exist, is revoked or its file is gone,
+   * GoneException if it has expired or has no downloads left, UnauthorizedException if the password is wrong.
+   */
+  async resolveShareLink(params: {token: string; password?: string}) {
+    const link = await this.prisma.s3ShareLink.findUnique({where: {token: params.token}});
+    if (!link || link.revokedAt) {
+      throw new NotFoundException('The share link does not exist or has been revoked.');
+    }
+    if (link.expiresAt && link.expiresAt <= new Date()) {
+      throw new GoneException('The share link has expired.');
+    }
+    if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+      throw new GoneException('The share link has no downloads left.');
+    }
+    if (link.passwordHash && !(await this.verifyPassword(params.password ?? '', link.passwordHash))) {
+      throw new UnauthorizedException('The password of the share link is wrong.');
+    }
+
+    const file = await this.prisma.s3File.findFirst({
+      where: {id: link.fileId, trashedAt: null},
+      select: {id: true, name: true, type: true, size: true, updatedAt: true},
+    });
+    if (!file) {
+      throw new NotFoundException('The share link does not exist or has been revoked.');
+    }
+
+    await this.prisma.s3ShareLink.update({
+      where: {id: link.id},
+      data: {accessCount: {increment: 1}, lastAccessedAt: new Date()},
+    });
+    return {link, file};
+  }
+
+  /**
+   * The shared file, or a file or folder under the shared folder.
+   * Throws NotFoundException if `fileId` is outside of what the link shares.
+   */
+  async getSharedFile(params: {link: S3ShareLink; fileId?: string}) {
+    const fileId = params.fileId ?? params.link.fileId;
+    const file = await this.prisma.s3File.findFirst({
+      where: {id: fileId, trashedAt: null, status: S3FileStatus.available},
+      select: {id: true, name: true, type: true, size: true, parentId: true},
+    });
+
+    let parentId: string | null = file ? file.id : null;
+    while (parentId && parentId !== params.link.fileId) {
+      const parent: {parentId: string | null} = await this.prisma.s3File.findFirstOrThrow({
+        where: {id: parentId},
+        select: {parentId: true},
+      });
+      parentId = parent.parentId;
+    }
+    if (!file || !parentId) {
+      throw new NotFoundException(`The file ${fileId} is not shared by this link.`);
+    }
+    return file;
+  }
+
+  /**
+   * Get the shared file to download and count the download.
+   * Throws GoneException if the link has no downloads left by now.
+   */
+  async startDownload(params: {link: S3ShareLink; fileId?: string}) {
+    const file = await this.getSharedFile(params);
+    if (file.type === 'folder') {
+      throw new Error('A folder has no content.');
+    }
+
+    const {link} = params;
+    const {count} = await this.prisma.s3ShareLink.updateMany({
+      where: {id: link.id, ...(link.maxDownloads !== null ? {downloadCount: {lt: link.maxDownloads}} : {})},
+      data: {downloadCount: {increment: 1}},
+    });
+    if (count === 0) {
+      throw new GoneException('The share link has no downloads left.');
+    }
+    return file;
+  }
+
+  /** A moved file or folder keeps its links. */
+  async moveShareLinks(params: {fileId: string; destinationFileId: string}) {
+    await this.prisma.s3ShareLink.updateMany({
+      where: {fileId: params.fileId},
+      data: {fileId: params.destinationFileId},
+    });
+  }
+
+  async deleteShareLinks(fileIds: string[]) {
+    await this.prisma.s3ShareLink.deleteMany({where: {fileId: {in: fileIds}}});
+  }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  /** The token is only returned to the users who can manage the file, the password hash never is. */
+  private toShareLink(link: S3ShareLink) {
+    const {passwordHash, ...others} = link;
+    return {...others, hasPassword: passwordHash !== null};
+  }
+
+  private async hashPassword(password: string) {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, 32);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, passwordHash: string) {
+    const [, salt, hash] = passwordHash.split(':');
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+    return timingSafeEqual(actual, expected);
+  }
+}
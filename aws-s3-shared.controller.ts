@@ -0,0 +1,102 @@
+import {Ip, Get, Res, Param, Query, Headers, Controller, StreamableFile} from '@nestjs/common';
+import {ApiTags, ApiResponse, ApiOperation} from '@nestjs/swagger';
+import {Prisma, S3FileStatus} from '@generated/prisma/client';
+import {PrismaService} from '@framework/prisma/prisma.service';
+import {Response} from 'express';
+import {ListSharedFilesRequestDto, ListSharedFilesResponseDto, SharedLinkResponseDto} from './aws-s3-share.dto';
+import {AwsS3ShareService} from './aws-s3-share.service';
+import {AwsS3FileService} from './aws-s3-file.service';
+
+/**
+ * The public side of the share links, the token is the only credential: these routes have no AwsS3AccessGuard.
+ * The password of a link is sent in the x-share-password request header.
+ */
+@ApiTags('AWS / S3')
+@Controller('aws-s3/shared')
+export class AwsS3SharedController {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly s3File: AwsS3FileService,
+    private readonly share: AwsS3ShareService
+  ) {}
+
+  @Get(':token')
+  @ApiOperation({summary: 'Get the file or folder shared by a link'})
+  @ApiResponse({type: SharedLinkResponseDto})
+  async getSharedLink(@Param('token') token: string, @Headers('x-share-password') password: string | undefined) {
+    const {link, file} = await this.share.resolveShareLink({token, password});
+    return {
+      file,
+      expiresAt: link.expiresAt,
+      remainingDownloads: link.maxDownloads !== null ? link.maxDownloads - link.downloadCount : null,
+    };
+  }
+
+  @Get(':token/files')
+  @ApiOperation({
+    summary: 'List the files in a shared folder',
+    description: 'Use `parentId` to list a subfolder.',
+  })
+  @ApiResponse({type: ListSharedFilesResponseDto})
+  async listSharedFiles(
+    @Param('token') token: string,
+    @Query() query: ListSharedFilesRequestDto,
+    @Headers('x-share-password') password: string | undefined
+  ) {
+    const {link} = await this.share.resolveShareLink({token, password});
+    const folder = await this.share.getSharedFile({link, fileId: query.parentId});
+    if (folder.type !== 'folder') {
+      throw new Error('The shared file is not a folder.');
+    }
+
+    return await this.prisma.findManyInManyPages({
+      model: Prisma.ModelName.S3File,
+      pagination: {page: query.page, pageSize: query.pageSize},
+      findManyArgs: {
+        where: {parentId: folder.id, trashedAt: null, status: S3FileStatus.available},
+        select: {id: true, name: true, type: true, size: true, updatedAt: true},
+        orderBy: {name: 'asc'},
+      },
+    });
+  }
+
+  @Get(':token/signedDownloadUrl')
+  @ApiOperation({
+    summary: 'Get a signed URL to download a shared file',
+    description: 'For a folder link, `fileId` is a file under the folder. It counts as a download.',
+  })
+  async getSharedDownloadUrl(
+    @Param('token') token: string,
+    @Query('fileId') fileId: string | undefined,
+    @Headers('x-share-password') password: string | undefined,
+    @Ip() ip: string
+  ) {
+    const {link} = await this.share.resolveShareLink({token, password});
+    const file = await this.share.startDownload({link, fileId});
+    return await this.s3File.getSignedDownloadUrl(file.id, undefined, ip);
+  }
+
+  @Get(':token/content')
+  @ApiOperation({
+    summary: 'Stream the content of a shared file',
+    description:
+      'For a folder link, `fileId` is a file under the folder. Supports the Range request header, ' +
+      'every request counts as a download: ranges could otherwise fetch the whole file without being counted.',
+  })
+  async getSharedContent(
+    @Param('token') token: string,
+    @Query('fileId') fileId: string | undefined,
+    @Headers('x-share-password') password: string | undefined,
+    @Headers('range') range: string | undefined,
+    @Res({passthrough: true}) res: Response
+  ) {
+    const {link} = await this.share.resolveShareLink({token, password});
+    const file = await this.share.startDownload({link, fileId});
+    const content = await this.s3File.getFileContent({fileId: file.id, range});
+
+    res.status(content.statusCode).set(content.headers);
+    return content.body ? new StreamableFile(content.body) : undefined;
+  }
+
+  /* End */
+}
@@ -0,0 +1,216 @@
+import {
+  CopyObjectCommandOutput,
+  GetObjectCommandOutput,
+  HeadObjectCommandOutput,
+  PutObjectCommandOutput,
+  DeleteObjectsCommandOutput,
+  AbortMultipartUploadCommandOutput,
+  CreateMultipartUploadCommandOutput,
+  CompleteMultipartUploadCommandOutput,
+} from '@aws-sdk/client-s3';
+
+/** Injection token of the storage driver selected by `microservices.aws-s3.driver`. */
+export const AWS_S3_STORAGE_DRIVER = 'AWS_S3_STORAGE_DRIVER';
+
+/**
+ * - 's3': AwsS3Service, talks to AWS S3.
+ * - 'local': AwsS3LocalDriver, stores objects under `microservices.aws-s3.localRoot`.
+ * - 'memory': AwsS3MemoryDriver, keeps objects in process memory.
+ */
+export type AwsS3DriverName = 's3' | 'local' | 'memory';
+
+/** The S3 additional checksum used end to end. Checksums are passed base64 encoded, as S3 expects them. */
+export type AwsS3ChecksumAlgorithm = 'SHA256';
+
+/**
+ * The object storage operations AwsS3FileService relies on.
+ * Keys are always passed raw, each driver takes care of its own encoding.
+ */
+export interface AwsS3StorageDriver {
+  //*********************/
+  //* Bucket operations */
+  //*********************/
+
+  createBucket(bucketName: string): Promise<unknown>;
+
+  deleteBucket(bucketName: string): Promise<unknown>;
+
+  /** Once enabled, versioning can only be suspended, objects keep the versions they already have. */
+  putBucketVersioning(bucketName: string, enabled: boolean): Promise<unknown>;
+
+  //*********************/
+  //* Object operations */
+  //*********************/
+
+  /**
+   * Conditional and range requests fail like S3 does:
+   * a 304 exception if the object is not modified, a 416 exception if the range cannot be satisfied.
+   */
+  getObject(params: {
+    bucket?: string;
+    key: string;
+    range?: string; // e.g. 'bytes=0-1023'
+    ifNoneMatch?: string;
+    ifModifiedSince?: Date;
+    versionId?: string; // Defaults to the current version.
+  }): Promise<GetObjectCommandOutput>;
+
+  /**
+   * Throws a 404 exception if the object, or the version, does not exist.
+   * The checksum and the user metadata are returned if there are some.
+   */
+  headObject(params: {bucket?: string; key: string; versionId?: string}): Promise<HeadObjectCommandOutput>;
+
+  putObject(params: {
+    bucket?: string;
+    key: string;
+    body?: Buffer | string;
+    contentType?: string;
+    checksumSHA256?: string; // S3 rejects the body if it does not match.
+    tags?: Record<string, string>; // Within the limits checked by verifyS3Tags.
+    metadata?: Record<string, string>; // Within the limits checked by verifyS3Metadata, S3 lowercases the keys.
+  }): Promise<PutObjectCommandOutput>;
+
+  /** The tags and the user metadata are copied, unless `metadata` is provided to replace it. */
+  copyObject(params: {
+    bucket?: string;
+    sourceKey: string;
+    sourceVersionId?: string; // Defaults to the current version.
+    destinationKey: string;
+    destinationBucket?: string; // Defaults to `bucket`.
+    metadata?: Record<string, string>;
+  }): Promise<CopyObjectCommandOutput>;
+
+  moveObject(params: {
+    bucket?: string;
+    sourceKey: string;
+    destinationKey: string;
+    destinationBucket?: string; // Defaults to `bucket`.
+  }): Promise<void>;
+
+  /**
+   * Without `versionId`, a versioned bucket keeps the object's versions and adds a delete marker.
+   * With it, that version is deleted for good.
+   */
+  deleteObject(params: {bucket?: string; key: string; versionId?: string}): Promise<DeleteObjectsCommandOutput>;
+
+  /**
+   * Delete objects with as few requests as possible, DeleteObjects takes up to 1000 keys.
+   * Like deleteObject, a `versionId` deletes that version for good. Returns the objects which could not be deleted.
+   */
+  deleteObjects(params: {
+    bucket?: string;
+    objects: {key: string; versionId?: string}[];
+  }): Promise<{key: string; versionId?: string; message: string}[]>;
+
+  deleteObjectRecursively(params: {bucket: string; key: string}): Promise<void>;
+
+  /** Replace the tag set of the current version of an object, an empty set removes the tags. */
+  putObjectTagging(params: {bucket?: string; key: string; tags: Record<string, string>}): Promise<unknown>;
+
+  getObjectsRecursively(params: {bucket?: string; prefix?: string}): Promise<{s3Key: string; size?: number}[]>;
+
+  /**
+   * All the versions and delete markers of an object, newest first.
+   * An object in a bucket that has never been versioned has a single version, 'null'.
+   */
+  listObjectVersions(params: {bucket?: string; key: string}): Promise<
+    {
+      VersionId: string;
+      IsLatest: boolean;
+      IsDeleteMarker: boolean;
+      Size?: number;
+      ETag?: string;
+      LastModified: Date;
+    }[]
+  >;
+
+  //*******************************/
+  //* Multipart upload operations */
+  //*******************************/
+
+  createMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    checksumAlgorithm?: AwsS3ChecksumAlgorithm; // Every part must then be uploaded and completed with its checksum.
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }): Promise<CreateMultipartUploadCommandOutput>;
+
+  uploadPart(params: {
+    bucket?: string;
+    key: string;
+    body: Buffer | Uint8Array | Blob | string;
+    partNumber: number;
+    uploadId: string;
+    checksumSHA256?: string; // S3 rejects the part if it does not match.
+  }): Promise<{ETag?: string; PartNumber: number; ChecksumSHA256?: string}>;
+
+  /**
+   * Copy a byte range of an object as a part of a multipart upload, for the objects CopyObject cannot copy.
+   * With a checksum algorithm, S3 computes the checksum of the part.
+   */
+  uploadPartCopy(params: {
+    bucket?: string; // The bucket of the source object.
+    sourceKey: string;
+    sourceVersionId?: string; // Defaults to the current version.
+    sourceRange: {start: number; end: number}; // Inclusive, as in HTTP.
+    destinationBucket?: string; // The bucket of the upload, defaults to `bucket`.
+    destinationKey: string;
+    partNumber: number;
+    uploadId: string;
+  }): Promise<{ETag?: string; PartNumber: number; ChecksumSHA256?: string}>;
+
+  /** All the parts uploaded so far, ordered by part number. */
+  listParts(params: {
+    bucket?: string;
+    key: string;
+    uploadId: string;
+  }): Promise<{PartNumber: number; ETag: string; Size: number; ChecksumSHA256?: string}[]>;
+
+  /** The checksum of a multipart object is the checksum of the part checksums, followed by '-' and the part count. */
+  completeMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    parts: {ETag: string; PartNumber: number; ChecksumSHA256?: string}[];
+    uploadId: string;
+  }): Promise<CompleteMultipartUploadCommandOutput>;
+
+  /** All the multipart uploads in progress in the bucket. */
+  listMultipartUploads(params: {bucket?: string}): Promise<{Key: string; UploadId: string; Initiated: Date}[]>;
+
+  abortMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    uploadId: string;
+  }): Promise<AbortMultipartUploadCommandOutput>;
+
+  //*****************************/
+  //* Get signed URL operations */
+  //*****************************/
+
+  getSignedDownloadUrl(params: {bucket?: string; key: string; versionId?: string}): Promise<string>;
+
+  /**
+   * With `checksumSHA256`, the client must send it in the x-amz-checksum-sha256 header, and S3 verifies the body.
+   * The metadata is signed into the URL. Tags are not, S3 only reads them from the x-amz-tagging header.
+   */
+  getSignedUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    contentEncoding?: string;
+    checksumSHA256?: string;
+    metadata?: Record<string, string>;
+  }): Promise<string>;
+
+  /** With `checksumSHA256`, the client must send it in the x-amz-checksum-sha256 header, and S3 verifies the part. */
+  getSignedMultipartUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    partNumber: number;
+    uploadId: string;
+    checksumSHA256?: string;
+  }): Promise<string>;
+}
@@ -1,12 +1,75 @@
 import {Global, Module} from '@nestjs/common';
+import {ConfigService} from '@nestjs/config';
 import {AwsS3Service} from './aws-s3.service';
 import {AwsS3FileService} from './aws-s3-file.service';
 import {AwsS3FileController} from './aws-s3-file.controller';
+import {AwsS3BucketService} from './aws-s3-bucket.service';
+import {AwsS3BucketController} from './aws-s3-bucket.controller';
+import {AwsS3JanitorService} from './aws-s3-janitor.service';
+import {AwsS3ImageService} from './aws-s3-image.service';
+import {AwsS3QuotaService} from './aws-s3-quota.service';
+import {AwsS3QuotaController} from './aws-s3-quota.controller';
+import {AwsS3AccessService} from './aws-s3-access.service';
+import {AwsS3AccessController} from './aws-s3-access.controller';
+import {AwsS3AccessGuard} from './aws-s3-access.guard';
+import {AwsS3ShareService} from './aws-s3-share.service';
+import {AwsS3ShareController} from './aws-s3-share.controller';
+import {AwsS3SharedController} from './aws-s3-shared.controller';
+import {AwsS3CdnService} from './aws-s3-cdn.service';
+import {AWS_S3_STORAGE_DRIVER, AwsS3DriverName, AwsS3StorageDriver} from './aws-s3.driver';
+import {AwsS3LocalDriver} from './aws-s3-local.driver';
+import {AwsS3MemoryDriver} from './aws-s3-memory.driver';
 
 @Global()
 @Module({
-  controllers: [AwsS3FileController],
-  providers: [AwsS3Service, AwsS3FileService],
-  exports: [AwsS3Service, AwsS3FileService],
+  controllers: [
+    AwsS3BucketController,
+    AwsS3FileController,
+    AwsS3QuotaController,
+    AwsS3AccessController,
+    AwsS3ShareController,
+    AwsS3SharedController,
+  ],
+  providers: [
+    AwsS3Service,
+    {
+      provide: AWS_S3_STORAGE_DRIVER,
+      inject: [ConfigService, AwsS3Service],
+      useFactory: (config: ConfigService, s3: AwsS3Service): AwsS3StorageDriver => {
+        const driver = config.get<AwsS3DriverName>('microservices.aws-s3.driver') || 's3';
+        switch (driver) {
+          case 's3':
+            return s3;
+          case 'local':
+            return new AwsS3LocalDriver(config);
+          case 'memory':
+            return new AwsS3MemoryDriver(config);
+          default:
+            throw new Error(`Unknown AWS S3 storage driver '${driver}'.`);
+        }
+      },
+    },
+    AwsS3BucketService,
+    AwsS3CdnService,
+    AwsS3ImageService,
+    AwsS3QuotaService,
+    AwsS3AccessService,
+    AwsS3AccessGuard,
+    AwsS3ShareService,
+    AwsS3FileService,
+    AwsS3JanitorService,
+  ],
+  exports: [
+    AwsS3Service,
+    AWS_S3_STORAGE_DRIVER,
+    AwsS3BucketService,
+    AwsS3CdnService,
+    AwsS3ImageService,
+    AwsS3QuotaService,
+    AwsS3AccessService,
+    AwsS3AccessGuard,
+    AwsS3ShareService,
+    AwsS3FileService,
+  ],
 })
 export class AwsS3Module {}
@@ -3,21 +3,35 @@ import {ConfigService} from '@nestjs/config';
 import {
   S3Client,
   GetObjectCommand,
+  HeadObjectCommand,
   PutObjectCommand,
   CopyObjectCommand,
+  PutObjectTaggingCommand,
   UploadPartCommand,
+  UploadPartCopyCommand,
   CreateBucketCommand,
   DeleteBucketCommand,
+  PutBucketVersioningCommand,
   DeleteObjectsCommand,
   ListObjectsV2Command,
+  ListObjectVersionsCommand,
   AbortMultipartUploadCommand,
   CreateMultipartUploadCommand,
   CompleteMultipartUploadCommand,
+  ListPartsCommand,
+  ListMultipartUploadsCommand,
+  BucketLocationConstraint,
+  HeadObjectCommandOutput,
 } from '@aws-sdk/client-s3';
 import {getSignedUrl} from '@aws-sdk/s3-request-presigner';
+import {AwsS3ChecksumAlgorithm, AwsS3StorageDriver} from './aws-s3.driver';
+
+// Signed as headers rather than hoisted to the query string, so the client has to send them and S3 verifies the body.
+const CHECKSUM_HEADERS = new Set(['x-amz-checksum-sha256']);
+const MAX_DELETE_OBJECTS_KEYS = 1000; // DeleteObjects rejects more keys.
 
 @Injectable()
-export class AwsS3Service {
+export class AwsS3Service implements AwsS3StorageDriver {
   private client: S3Client;
   private bucket: string;
   private region: string;
@@ -47,52 +61,119 @@ export class AwsS3Service {
   //*********************/
 
   async createBucket(bucketName: string) {
-    return await this.client.send(new CreateBucketCommand({Bucket: bucketName}));
+    return await this.client.send(
+      new CreateBucketCommand({
+        Bucket: bucketName,
+        // us-east-1 is the default location and must not be set as a location constraint.
+        CreateBucketConfiguration:
+          this.region === 'us-east-1' ? undefined : {LocationConstraint: this.region as BucketLocationConstraint},
+      })
+    );
   }
 
   async deleteBucket(bucketName: string) {
     return await this.client.send(new DeleteBucketCommand({Bucket: bucketName}));
   }
 
+  async putBucketVersioning(bucketName: string, enabled: boolean) {
+    return await this.client.send(
+      new PutBucketVersioningCommand({
+        Bucket: bucketName,
+        VersioningConfiguration: {Status: enabled ? 'Enabled' : 'Suspended'},
+      })
+    );
+  }
+
   //*********************/
   //* Object operations */
   //*********************/
 
-  async getObject(params: {bucket?: string; key: string}) {
+  async getObject(params: {
+    bucket?: string;
+    key: string;
+    range?: string;
+    ifNoneMatch?: string;
+    ifModifiedSince?: Date;
+    versionId?: string;
+  }) {
     return await this.client.send(
       new GetObjectCommand({
         Bucket: params.bucket ?? this.bucket,
         Key: params.key,
+        Range: params.range,
+        IfNoneMatch: params.ifNoneMatch,
+        IfModifiedSince: params.ifModifiedSince,
+        VersionId: params.versionId,
       })
     );
   }
 
-  async putObject(params: {bucket?: string; key: string; body?: Buffer | string}) {
+  async headObject(params: {bucket?: string; key: string; versionId?: string}) {
+    return await this.client.send(
+      new HeadObjectCommand({
+        Bucket: params.bucket ?? this.bucket,
+        Key: params.key,
+        VersionId: params.versionId,
+        ChecksumMode: 'ENABLED',
+      })
+    );
+  }
+
+  async putObject(params: {
+    bucket?: string;
+    key: string;
+    body?: Buffer | string;
+    contentType?: string;
+    checksumSHA256?: string;
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }) {
     return await this.client.send(
       new PutObjectCommand({
         Bucket: params.bucket ?? this.bucket,
         Key: params.key,
         Body: params.body,
+        ContentType: params.contentType,
+        ChecksumSHA256: params.checksumSHA256,
+        Tagging: params.tags ? new URLSearchParams(params.tags).toString() : undefined,
+        Metadata: params.metadata,
       })
     );
   }
 
-  async copyObject(params: {bucket?: string; sourceKey: string; destinationKey: string}) {
+  async copyObject(params: {
+    bucket?: string;
+    sourceKey: string;
+    sourceVersionId?: string;
+    destinationKey: string;
+    destinationBucket?: string;
+    metadata?: Record<string, string>;
+  }) {
+    // Replacing the metadata replaces the system metadata too, so the content type and encoding are carried over.
+    let source: HeadObjectCommandOutput | undefined;
+    if (params.metadata) {
+      source = await this.headObject({bucket: params.bucket, key: params.sourceKey, versionId: params.sourceVersionId});
+    }
+
     return await this.client.send(
       new CopyObjectCommand({
-        Bucket: params.bucket ?? this.bucket,
-        CopySource: params.bucket ? `${params.bucket}/${params.sourceKey}` : `${this.bucket}/${params.sourceKey}`,
+        Bucket: params.destinationBucket ?? params.bucket ?? this.bucket,
+        CopySource: this.copySource(params.bucket ?? this.bucket, params.sourceKey, params.sourceVersionId),
         Key: params.destinationKey,
+        MetadataDirective: params.metadata ? 'REPLACE' : undefined,
+        Metadata: params.metadata,
+        ContentType: source?.ContentType,
+        ContentEncoding: source?.ContentEncoding,
       })
     );
   }
 
-  async moveObject(params: {bucket?: string; sourceKey: string; destinationKey: string}) {
+  async moveObject(params: {bucket?: string; sourceKey: string; destinationKey: string; destinationBucket?: string}) {
     // [step 1] Copy the object to the new location
     await this.client.send(
       new CopyObjectCommand({
-        Bucket: params.bucket ?? this.bucket,
-        CopySource: params.bucket ? `${params.bucket}/${params.sourceKey}` : `${this.bucket}/${params.sourceKey}`,
+        Bucket: params.destinationBucket ?? params.bucket ?? this.bucket,
+        CopySource: this.copySource(params.bucket ?? this.bucket, params.sourceKey),
         Key: params.destinationKey,
       })
     );
@@ -106,15 +187,38 @@ export class AwsS3Service {
     );
   }
 
-  async deleteObject(params: {bucket?: string; key: string}) {
+  async deleteObject(params: {bucket?: string; key: string; versionId?: string}) {
     return await this.client.send(
       new DeleteObjectsCommand({
         Bucket: params.bucket ?? this.bucket,
-        Delete: {Objects: [{Key: params.key}]},
+        Delete: {Objects: [{Key: params.key, VersionId: params.versionId}]},
       })
     );
   }
 
+  async deleteObjects(params: {bucket?: string; objects: {key: string; versionId?: string}[]}) {
+    const errors: {key: string; versionId?: string; message: string}[] = [];
+    for (let i = 0; i < params.objects.length; i += MAX_DELETE_OBJECTS_KEYS) {
+      // Quiet mode only returns the keys which failed.
+      const output = await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: params.bucket ?? this.bucket,
+          Delete: {
+            Objects: params.objects
+              .slice(i, i + MAX_DELETE_OBJECTS_KEYS)
+              .map(object => ({Key: object.key, VersionId: object.versionId})),
+            Quiet: true,
+          },
+        })
+      );
+      for (const error of output.Errors ?? []) {
+        const message = error.Message ?? error.Code ?? 'Unknown error';
+        errors.push({key: error.Key!, versionId: error.VersionId, message});
+      }
+    }
+    return errors;
+  }
+
   async deleteObjectRecursively(params: {bucket: string; key: string}) {
     try {
       // [step 1] List objects
@@ -153,18 +257,19 @@ export class AwsS3Service {
 
   async getObjectsRecursively(params: {bucket?: string; prefix?: string}) {
     const allKeys: {s3Key: string; size?: number}[] = [];
-    try {
+    let continuationToken: string | undefined;
+
+    do {
       // [step 1] List objects
       const listResponse = await this.client.send(
         new ListObjectsV2Command({
           Bucket: params.bucket ?? this.bucket,
           Prefix: params.prefix,
+          ContinuationToken: continuationToken,
         })
       );
 
-      if (!listResponse.Contents || listResponse.Contents.length === 0) {
-        return allKeys;
-      } else {
+      if (listResponse.Contents) {
         allKeys.push(
           ...listResponse.Contents.map(content => {
             return {s3Key: content.Key!, size: content.Size};
@@ -174,29 +279,100 @@ export class AwsS3Service {
 
       // https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListObjectsV2.html
       // IsTruncated: Set to false if all of the results were returned. Set to true if more keys are available to return. If the number of results exceeds that specified by MaxKeys, all of the results might not be returned.
-      if (listResponse.IsTruncated) {
-        const keys = await this.getObjectsRecursively(params);
-        allKeys.push(...keys);
-      } else {
-        return allKeys;
+      continuationToken = listResponse.IsTruncated ? listResponse.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return allKeys;
+  }
+
+  async listObjectVersions(params: {bucket?: string; key: string}) {
+    const versions: {
+      VersionId: string;
+      IsLatest: boolean;
+      IsDeleteMarker: boolean;
+      Size?: number;
+      ETag?: string;
+      LastModified: Date;
+    }[] = [];
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    do {
+      const listResponse = await this.client.send(
+        new ListObjectVersionsCommand({
+          Bucket: params.bucket ?? this.bucket,
+          Prefix: params.key,
+          KeyMarker: keyMarker,
+          VersionIdMarker: versionIdMarker,
+        })
+      );
+
+      // The prefix also matches longer keys, e.g. 'a/b.txt' matches 'a/b.txt.bak'.
+      for (const version of listResponse.Versions ?? []) {
+        if (version.Key === params.key) {
+          versions.push({
+            VersionId: version.VersionId!,
+            IsLatest: version.IsLatest ?? false,
+            IsDeleteMarker: false,
+            Size: version.Size,
+            ETag: version.ETag,
+            LastModified: version.LastModified!,
+          });
+        }
       }
-    } catch (error) {
-      // TODO (developer) - Handle exception
-      throw error;
-    } finally {
-      return allKeys;
-    }
+      for (const marker of listResponse.DeleteMarkers ?? []) {
+        if (marker.Key === params.key) {
+          versions.push({
+            VersionId: marker.VersionId!,
+            IsLatest: marker.IsLatest ?? false,
+            IsDeleteMarker: true,
+            LastModified: marker.LastModified!,
+          });
+        }
+      }
+
+      // At most 1000 versions are returned at a time.
+      keyMarker = listResponse.IsTruncated ? listResponse.NextKeyMarker : undefined;
+      versionIdMarker = listResponse.IsTruncated ? listResponse.NextVersionIdMarker : undefined;
+    } while (keyMarker);
+
+    return versions.sort((a, b) => b.LastModified.getTime() - a.LastModified.getTime());
+  }
+
+  async putObjectTagging(params: {bucket?: string; key: string; tags: Record<string, string>}) {
+    return await this.client.send(
+      new PutObjectTaggingCommand({
+        Bucket: params.bucket ?? this.bucket,
+        Key: params.key,
+        Tagging: {
+          TagSet: Object.entries(params.tags).map(([Key, Value]) => {
+            return {Key, Value};
+          }),
+        },
+      })
+    );
   }
 
   //*******************************/
   //* Multipart upload operations */
   //*******************************/
 
-  async createMultipartUpload(params: {bucket?: string; key: string}) {
+  async createMultipartUpload(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    checksumAlgorithm?: AwsS3ChecksumAlgorithm;
+    tags?: Record<string, string>;
+    metadata?: Record<string, string>;
+  }) {
     return await this.client.send(
       new CreateMultipartUploadCommand({
         Bucket: params.bucket ?? this.bucket,
         Key: params.key,
+        ContentType: params.contentType,
+        ChecksumAlgorithm: params.checksumAlgorithm,
+        Tagging: params.tags ? new URLSearchParams(params.tags).toString() : undefined,
+        Metadata: params.metadata,
       })
     );
   }
@@ -207,6 +383,7 @@ export class AwsS3Service {
     body: Buffer | Uint8Array | Blob | string;
     partNumber: number;
     uploadId: string;
+    checksumSHA256?: string;
   }) {
     const response = await this.client.send(
       new UploadPartCommand({
@@ -215,19 +392,83 @@ export class AwsS3Service {
         Body: params.body,
         PartNumber: params.partNumber,
         UploadId: params.uploadId,
+        ChecksumSHA256: params.checksumSHA256,
       })
     );
 
     return {
       ETag: response.ETag,
       PartNumber: params.partNumber,
+      ChecksumSHA256: response.ChecksumSHA256,
     };
   }
 
+  async uploadPartCopy(params: {
+    bucket?: string;
+    sourceKey: string;
+    sourceVersionId?: string;
+    sourceRange: {start: number; end: number};
+    destinationBucket?: string;
+    destinationKey: string;
+    partNumber: number;
+    uploadId: string;
+  }) {
+    const response = await this.client.send(
+      new UploadPartCopyCommand({
+        Bucket: params.destinationBucket ?? params.bucket ?? this.bucket,
+        Key: params.destinationKey,
+        CopySource: this.copySource(params.bucket ?? this.bucket, params.sourceKey, params.sourceVersionId),
+        CopySourceRange: `bytes=${params.sourceRange.start}-${params.sourceRange.end}`,
+        PartNumber: params.partNumber,
+        UploadId: params.uploadId,
+      })
+    );
+
+    return {
+      ETag: response.CopyPartResult?.ETag,
+      PartNumber: params.partNumber,
+      ChecksumSHA256: response.CopyPartResult?.ChecksumSHA256,
+    };
+  }
+
+  async listParts(params: {bucket?: string; key: string; uploadId: string}) {
+    const parts: {PartNumber: number; ETag: string; Size: number; ChecksumSHA256?: string}[] = [];
+    let partNumberMarker: string | undefined;
+
+    do {
+      const listResponse = await this.client.send(
+        new ListPartsCommand({
+          Bucket: params.bucket ?? this.bucket,
+          Key: params.key,
+          UploadId: params.uploadId,
+          PartNumberMarker: partNumberMarker,
+        })
+      );
+
+      if (listResponse.Parts) {
+        parts.push(
+          ...listResponse.Parts.map(part => {
+            return {
+              PartNumber: part.PartNumber!,
+              ETag: part.ETag!,
+              Size: part.Size ?? 0,
+              ChecksumSHA256: part.ChecksumSHA256,
+            };
+          })
+        );
+      }
+
+      // At most 1000 parts are returned at a time.
+      partNumberMarker = listResponse.IsTruncated ? listResponse.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
   async completeMultipartUpload(params: {
     bucket?: string;
     key: string;
-    parts: {ETag: string; PartNumber: number}[];
+    parts: {ETag: string; PartNumber: number; ChecksumSHA256?: string}[];
     uploadId: string;
   }) {
     return await this.client.send(
@@ -240,6 +481,36 @@ export class AwsS3Service {
     );
   }
 
+  async listMultipartUploads(params: {bucket?: string}) {
+    const uploads: {Key: string; UploadId: string; Initiated: Date}[] = [];
+    let keyMarker: string | undefined;
+    let uploadIdMarker: string | undefined;
+
+    do {
+      const listResponse = await this.client.send(
+        new ListMultipartUploadsCommand({
+          Bucket: params.bucket ?? this.bucket,
+          KeyMarker: keyMarker,
+          UploadIdMarker: uploadIdMarker,
+        })
+      );
+
+      if (listResponse.Uploads) {
+        uploads.push(
+          ...listResponse.Uploads.map(upload => {
+            return {Key: upload.Key!, UploadId: upload.UploadId!, Initiated: upload.Initiated!};
+          })
+        );
+      }
+
+      // At most 1000 uploads are returned at a time.
+      keyMarker = listResponse.IsTruncated ? listResponse.NextKeyMarker : undefined;
+      uploadIdMarker = listResponse.IsTruncated ? listResponse.NextUploadIdMarker : undefined;
+    } while (keyMarker);
+
+    return uploads;
+  }
+
   async abortMultipartUpload(params: {bucket?: string; key: string; uploadId: string}) {
     return await this.client.send(
       new AbortMultipartUploadCommand({
@@ -255,10 +526,11 @@ export class AwsS3Service {
   //*****************************/
 
   /** Get a signed URL to access an S3 object for signedUrlExpiresIn seconds */
-  async getSignedDownloadUrl(params: {bucket?: string; key: string}) {
+  async getSignedDownloadUrl(params: {bucket?: string; key: string; versionId?: string}) {
     const command = new GetObjectCommand({
       Bucket: params.bucket ?? this.bucket,
       Key: params.key,
+      VersionId: params.versionId,
     });
 
     return await getSignedUrl(this.client, command, {
@@ -267,30 +539,58 @@ export class AwsS3Service {
   }
 
   /** Get a signed URL to upload an S3 object for signedUrlExpiresIn seconds */
-  async getSignedUploadUrl(params: {bucket?: string; key: string; contentType?: string; contentEncoding?: string}) {
+  async getSignedUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    contentType?: string;
+    contentEncoding?: string;
+    checksumSHA256?: string;
+    metadata?: Record<string, string>;
+  }) {
     const command = new PutObjectCommand({
       Bucket: params.bucket ?? this.bucket,
       Key: params.key,
       ContentType: params.contentType,
       ContentEncoding: params.contentEncoding,
+      ChecksumSHA256: params.checksumSHA256,
+      Metadata: params.metadata,
     });
 
     return await getSignedUrl(this.client, command, {
       expiresIn: this.signedUrlExpiresIn,
+      unhoistableHeaders: CHECKSUM_HEADERS,
     });
   }
 
   /** Get a signed URL to upload a part in a multipart upload */
-  async getSignedMultipartUploadUrl(params: {bucket?: string; key: string; partNumber: number; uploadId: string}) {
+  async getSignedMultipartUploadUrl(params: {
+    bucket?: string;
+    key: string;
+    partNumber: number;
+    uploadId: string;
+    checksumSHA256?: string;
+  }) {
     const command = new UploadPartCommand({
       Bucket: params.bucket ?? this.bucket,
       Key: params.key,
       PartNumber: params.partNumber,
       UploadId: params.uploadId,
+      ChecksumSHA256: params.checksumSHA256,
     });
 
     return getSignedUrl(this.client, command, {
       expiresIn: this.signedUrlExpiresIn,
+      unhoistableHeaders: CHECKSUM_HEADERS,
     });
   }
+
+  //*********************/
+  //* Private functions */
+  //*********************/
+
+  /** CopySource must be URL-encoded. [issue] https://github.com/aws/aws-sdk-js-v3/issues/6596 */
+  private copySource(bucket: string, key: string, versionId?: string) {
+    const copySource = `${bucket}/${encodeURIComponent(key)}`;
+    return versionId ? `${copySource}?versionId=${encodeURIComponent(versionId)}` : copySource;
+  }
 }
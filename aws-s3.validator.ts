@@ -31,3 +31,51 @@ export function verifyS3BucketName(name: string) {
   // [step 4] For special characters, only '-' can be contained in the username.
   return validator.isAlphanumeric(name, 'en-US', {ignore: '[-]'});
 }
+
+/**
+ * object tagging limits - https://docs.aws.amazon.com/AmazonS3/latest/userguide/object-tagging.html
+ *
+ * @param {Record<string, unknown>} tags
+ * @returns
+ */
+export function verifyS3Tags(tags: Record<string, unknown>): tags is Record<string, string> {
+  // [step 1] An object can have up to 10 tags.
+  const entries = Object.entries(tags);
+  if (entries.length > 10) {
+    return false;
+  }
+
+  // [step 2] Keys are up to 128 characters and values up to 256, 'aws:' is a reserved prefix.
+  // Only letters, numbers, spaces and '+ - = . _ : / @' are allowed.
+  const pattern = /^[\p{L}\p{N}\p{Z}+\-=._:/@]*$/u;
+  return entries.every(([key, value]) => {
+    return (
+      typeof value === 'string' &&
+      validator.isLength(key, {min: 1, max: 128}) &&
+      validator.isLength(value, {max: 256}) &&
+      !key.toLowerCase().startsWith('aws:') &&
+      pattern.test(key) &&
+      pattern.test(value)
+    );
+  });
+}
+
+/**
+ * user-defined metadata limits - https://docs.aws.amazon.com/AmazonS3/latest/userguide/UsingMetadata.html
+ *
+ * @param {Record<string, unknown>} metadata
+ * @returns
+ */
+export function verifyS3Metadata(metadata: Record<string, unknown>): metadata is Record<string, string> {
+  // [step 1] Keys become x-amz-meta-* headers, values are sent as they are, so both must be plain ASCII.
+  const entries = Object.entries(metadata);
+  const valid = entries.every(([key, value]) => {
+    return typeof value === 'string' && /^[\w-]+$/.test(key) && /^[\x20-\x7e]*$/.test(value);
+  });
+  if (!valid) {
+    return false;
+  }
+
+  // [step 2] The keys and values are limited to 2 KB in total.
+  return entries.reduce((size, [key, value]) => size + key.length + (value as string).length, 0) <= 2048;
+}
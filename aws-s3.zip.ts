@@ -0,0 +1,343 @@
+import {Readable, Transform, pipeline} from 'stream';
+import {createInflateRaw} from 'zlib';
+
+/** An entry of a ZIP archive. */
+export interface ZipEntry {
+  name: string; // The relative path with '/' separators, folders end with '/'.
+  date?: Date; // Defaults to now.
+  open?: () => Promise<{body: Readable; size: number}>; // Called when the archive reaches the entry, not for folders.
+}
+
+/** An entry read from a ZIP archive. */
+export interface ZipReadEntry {
+  name: string; // As written in the archive, it may point outside of the extraction folder: see getSafeZipPath.
+  size: number; // The uncompressed size announced by the archive.
+  isFolder: boolean;
+  date: Date;
+  open: () => Readable; // The uncompressed content, it fails if it does not match the size or the CRC.
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008; // The CRC is only known once the content is written.
+const FLAG_UTF8_NAME = 0x0800;
+
+const CRC_TABLE = new Int32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+/**
+ * Stream a ZIP archive of the entries, one entry at a time: the content of an entry is only opened
+ * when the previous one is written, and the archive is never held in memory.
+ * Entries are stored, not compressed: most files are already compressed, and it keeps the CPU free.
+ * Zip64 records are written for the entries from 4 GB and for the archives past 4 GB or 65535 entries.
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>) {
+  return Readable.from(generateZip(entries));
+}
+
+/**
+ * Read the entries of a ZIP archive from its central directory, the content of an entry is only inflated when opened.
+ * Stored and deflated entries can be opened, encrypted ones cannot. Zip64 archives are supported.
+ * Throws if the buffer is not a ZIP archive or its central directory is corrupted.
+ */
+export function readZipEntries(buffer: Buffer): ZipReadEntry[] {
+  // [step 1] Find the end record, it is followed by a comment of up to 65535 bytes.
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - UINT16_MAX); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The file is not a ZIP archive.');
+  }
+  let entryCount = buffer.readUInt16LE(endOffset + 10);
+  let offset = buffer.readUInt32LE(endOffset + 16);
+
+  // [step 2] The Zip64 end record holds the values which do not fit in the end record, the locator points at it.
+  if (endOffset >= 20 && buffer.readUInt32LE(endOffset - 20) === 0x07064b50) {
+    const zip64EndOffset = Number(buffer.readBigUInt64LE(endOffset - 12));
+    if (zip64EndOffset + 56 > buffer.length || buffer.readUInt32LE(zip64EndOffset) !== 0x06064b50) {
+      throw new Error('The ZIP archive is corrupted.');
+    }
+    entryCount = Number(buffer.readBigUInt64LE(zip64EndOffset + 32));
+    offset = Number(buffer.readBigUInt64LE(zip64EndOffset + 48));
+  }
+
+  // [step 3] Central directory headers.
+  const entries: ZipReadEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('The ZIP archive is corrupted.');
+    }
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const time = buffer.readUInt16LE(offset + 12);
+    const date = buffer.readUInt16LE(offset + 14);
+    const crc = buffer.readUInt32LE(offset + 16);
+    let compressedSize = buffer.readUInt32LE(offset + 20);
+    let size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    let headerOffset = buffer.readUInt32LE(offset + 42);
+    const name = decodeName(buffer.subarray(offset + 46, offset + 46 + nameLength), flags);
+
+    // The Zip64 extra only holds the values set to 0xffffffff in the header, in this order.
+    const extra = buffer.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+    for (let j = 0; j + 4 <= extra.length; j += 4 + extra.readUInt16LE(j + 2)) {
+      if (extra.readUInt16LE(j) === 0x0001) {
+        let k = j + 4;
+        const readNext = () => ((k += 8), Number(extra.readBigUInt64LE(k - 8)));
+        size = size === UINT32_MAX ? readNext() : size;
+        compressedSize = compressedSize === UINT32_MAX ? readNext() : compressedSize;
+        headerOffset = headerOffset === UINT32_MAX ? readNext() : headerOffset;
+      }
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.push({
+      name,
+      size,
+      isFolder: name.endsWith('/'),
+      date: fromDosDateTime(time, date),
+      open: () => {
+        if (flags & FLAG_ENCRYPTED) {
+          throw new Error(`The entry '${name}' is encrypted.`);
+        }
+        if (method !== 0 && method !== 8) {
+          throw new Error(`The entry '${name}' uses an unsupported compression method.`);
+        }
+        if (headerOffset + 30 > buffer.length || buffer.readUInt32LE(headerOffset) !== 0x04034b50) {
+          throw new Error('The ZIP archive is corrupted.');
+        }
+        const localNameLength = buffer.readUInt16LE(headerOffset + 26);
+        const dataOffset = headerOffset + 30 + localNameLength + buffer.readUInt16LE(headerOffset + 28);
+        const data = buffer.subarray(dataOffset, dataOffset + compressedSize);
+        if (data.length !== compressedSize) {
+          throw new Error('The ZIP archive is corrupted.');
+        }
+
+        const check = checkContent({name, size, crc});
+        return method === 8
+          ? pipeline(Readable.from([data]), createInflateRaw(), check, () => {})
+          : pipeline(Readable.from([data]), check, () => {});
+      },
+    });
+  }
+  return entries;
+}
+
+/**
+ * The path of an entry relative to the extraction folder, without empty and '.' segments.
+ * null if the entry could be written outside of the folder (zip slip): absolute paths and '..' segments.
+ * Backslashes are read as separators, some Windows archivers write them.
+ */
+export function getSafeZipPath(name: string) {
+  const path = name.replace(/\\/g, '/');
+  if (path.startsWith('/') || /^[a-zA-Z]:/.test(path) || path.includes('\0')) {
+    return null;
+  }
+
+  const segments = path.split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || segments.includes('..')) {
+    return null;
+  }
+  return segments.join('/');
+}
+
+async function* generateZip(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>) {
+  const centralDirectory: Buffer[] = [];
+  let offset = 0;
+  let entryCount = 0;
+
+  for await (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const {time, date} = toDosDateTime(entry.date ?? new Date());
+    const isFolder = entry.name.endsWith('/');
+
+    // [step 1] Open the content, its size tells whether the entry needs Zip64.
+    const content = !isFolder && entry.open ? await entry.open() : undefined;
+    const zip64 = (content?.size ?? 0) >= UINT32_MAX;
+    const flags = FLAG_UTF8_NAME | (content ? FLAG_DATA_DESCRIPTOR : 0);
+    const version = zip64 ? 45 : 20;
+
+    // [step 2] Local file header, the CRC and the sizes follow the content in the data descriptor.
+    const localExtra = zip64 ? zip64Extra([0n, 0n]) : Buffer.alloc(0);
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(0x04034b50, 0);
+    localHeader.writeUInt16LE(version, 4);
+    localHeader.writeUInt16LE(flags, 6);
+    localHeader.writeUInt16LE(0, 8); // Stored.
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(0, 14);
+    localHeader.writeUInt32LE(zip64 ? UINT32_MAX : 0, 18);
+    localHeader.writeUInt32LE(zip64 ? UINT32_MAX : 0, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(localExtra.length, 28);
+    yield Buffer.concat([localHeader, name, localExtra]);
+    const headerOffset = offset;
+    offset += localHeader.length + name.length + localExtra.length;
+
+    // [step 3] Content and data descriptor.
+    let crc = 0;
+    let size = 0;
+    if (content) {
+      for await (const chunk of content.body) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        crc = updateCrc32(crc, buffer);
+        size += buffer.length;
+        yield buffer;
+      }
+      if (!zip64 && size >= UINT32_MAX) {
+        throw new Error(`The entry '${entry.name}' is larger than its announced size.`);
+      }
+
+      const descriptor = Buffer.alloc(zip64 ? 24 : 16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      if (zip64) {
+        descriptor.writeBigUInt64LE(BigInt(size), 8);
+        descriptor.writeBigUInt64LE(BigInt(size), 16);
+      } else {
+        descriptor.writeUInt32LE(size, 8);
+        descriptor.writeUInt32LE(size, 12);
+      }
+      yield descriptor;
+      offset += size + descriptor.length;
+    }
+
+    // [step 4] Central directory header, kept until the end. Zip64 holds the values which do not fit in 32 bits.
+    const zip64Values = [
+      ...(size >= UINT32_MAX ? [BigInt(size), BigInt(size)] : []),
+      ...(headerOffset >= UINT32_MAX ? [BigInt(headerOffset)] : []),
+    ];
+    const centralExtra = zip64Values.length > 0 ? zip64Extra(zip64Values) : Buffer.alloc(0);
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(0x02014b50, 0);
+    centralHeader.writeUInt16LE(45, 4);
+    centralHeader.writeUInt16LE(zip64Values.length > 0 ? 45 : version, 6);
+    centralHeader.writeUInt16LE(flags, 8);
+    centralHeader.writeUInt16LE(0, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(crc, 16);
+    centralHeader.writeUInt32LE(Math.min(size, UINT32_MAX), 20);
+    centralHeader.writeUInt32LE(Math.min(size, UINT32_MAX), 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt16LE(centralExtra.length, 30);
+    centralHeader.writeUInt16LE(0, 32); // Comment length.
+    centralHeader.writeUInt16LE(0, 34); // Disk number.
+    centralHeader.writeUInt16LE(0, 36); // Internal attributes.
+    centralHeader.writeUInt32LE(isFolder ? 0x10 : 0, 38); // MS-DOS directory attribute.
+    centralHeader.writeUInt32LE(Math.min(headerOffset, UINT32_MAX), 42);
+    centralDirectory.push(Buffer.concat([centralHeader, name, centralExtra]));
+    entryCount += 1;
+  }
+
+  // [step 5] Central directory, then the end records.
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+  for (const header of centralDirectory) {
+    yield header;
+    centralDirectorySize += header.length;
+  }
+  offset += centralDirectorySize;
+
+  if (entryCount >= UINT16_MAX || centralDirectoryOffset >= UINT32_MAX || centralDirectorySize >= UINT32_MAX) {
+    const zip64End = Buffer.alloc(56);
+    zip64End.writeUInt32LE(0x06064b50, 0);
+    zip64End.writeBigUInt64LE(44n, 4); // The size of the rest of the record.
+    zip64End.writeUInt16LE(45, 12);
+    zip64End.writeUInt16LE(45, 14);
+    zip64End.writeUInt32LE(0, 16);
+    zip64End.writeUInt32LE(0, 20);
+    zip64End.writeBigUInt64LE(BigInt(entryCount), 24);
+    zip64End.writeBigUInt64LE(BigInt(entryCount), 32);
+    zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+    zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeUInt32LE(0, 4);
+    locator.writeBigUInt64LE(BigInt(offset), 8);
+    locator.writeUInt32LE(1, 16);
+    yield Buffer.concat([zip64End, locator]);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 8);
+  end.writeUInt16LE(Math.min(entryCount, UINT16_MAX), 10);
+  end.writeUInt32LE(Math.min(centralDirectorySize, UINT32_MAX), 12);
+  end.writeUInt32LE(Math.min(centralDirectoryOffset, UINT32_MAX), 16);
+  end.writeUInt16LE(0, 20);
+  yield end;
+}
+
+function zip64Extra(values: bigint[]) {
+  const extra = Buffer.alloc(4 + values.length * 8);
+  extra.writeUInt16LE(0x0001, 0);
+  extra.writeUInt16LE(values.length * 8, 2);
+  values.forEach((value, i) => extra.writeBigUInt64LE(value, 4 + i * 8));
+  return extra;
+}
+
+function toDosDateTime(value: Date) {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+  };
+}
+
+function fromDosDateTime(time: number, date: number) {
+  const [year, month, day] = [(date >> 9) + 1980, (date >> 5) & 0x0f, date & 0x1f];
+  return new Date(year, month - 1, day, time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+}
+
+/** Names are UTF-8 if flagged so, or if they decode as such: many archivers write UTF-8 without the flag. */
+function decodeName(name: Buffer, flags: number) {
+  if (flags & FLAG_UTF8_NAME) {
+    return name.toString('utf8');
+  }
+  try {
+    return new TextDecoder('utf-8', {fatal: true}).decode(name);
+  } catch {
+    return name.toString('latin1');
+  }
+}
+
+/** Fails as soon as the content exceeds the announced size, so an archive cannot hide a larger content. */
+function checkContent(entry: {name: string; size: number; crc: number}) {
+  let crc = 0;
+  let size = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      crc = updateCrc32(crc, chunk);
+      size += chunk.length;
+      callback(size > entry.size ? new Error(`The entry '${entry.name}' is larger than announced.`) : null, chunk);
+    },
+    flush(callback) {
+      callback(size !== entry.size || crc !== entry.crc ? new Error(`The entry '${entry.name}' is corrupted.`) : null);
+    },
+  });
+}
+
+function updateCrc32(crc: number, buffer: Buffer) {
+  let c = crc ^ -1;
+  for (let i = 0; i < buffer.length; i++) {
+    c = CRC_TABLE[(c ^ buffer[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ -1) >>> 0;
+}